@@ -0,0 +1,209 @@
+import { FieldSchema, parseFieldSchema, parseSchemaFile, SchemaError } from './nodeTypeSchema';
+
+/**
+ * What an agent accepts and produces. Kwargs are object schemas whose
+ * `fields` are the kwarg names; unlisted kwargs are reported unless
+ * `additionalFields` is set.
+ */
+export interface AgentDefinition {
+    initKwargs: FieldSchema;
+    callKwargs: FieldSchema;
+    /** Output names the agent returns; undefined when they are user-defined */
+    outputs?: string[];
+    /** Whether the agent calls a language model, so its provider, model and messages are checked */
+    llm?: boolean;
+}
+
+/** `agent_path` to definition */
+export type AgentCatalog = { [agentPath: string]: AgentDefinition };
+
+/** Workspace file that adds or overrides agent definitions */
+export const AGENT_CATALOG_FILE = '.genor/agents.yaml';
+
+/** The agent that runs the Python in its `code` init kwarg */
+export const CODE_AGENT_PATH = 'genor_agents.custom_code.code_agent.CodeAgent';
+
+// Kwargs whose names are not known ahead of time, such as a code agent's arguments
+const anyKwargs: FieldSchema = { fields: {}, additionalFields: true };
+
+export const BUILTIN_AGENTS: AgentCatalog = {
+    'genor_agents.llm_agent.llm_agent.LLMAgent': {
+        initKwargs: {
+            fields: {
+                model_provider: { type: ['string'], required: true },
+                hyperparameters: {
+                    type: ['object'],
+                    required: true,
+                    fields: {
+                        model: { type: ['string'], required: true },
+                        temperature: { type: ['number'] },
+                        top_p: { type: ['number'] },
+                        max_tokens: { type: ['number'] },
+                        response_format: {},
+                        convert_to_dict: { type: ['boolean'] }
+                    },
+                    // Providers accept parameters of their own
+                    additionalFields: true
+                },
+                system_prompt: { type: ['string'] }
+            },
+            additionalFields: false
+        },
+        callKwargs: {
+            fields: {
+                messages: {
+                    type: ['array'],
+                    required: true,
+                    items: {
+                        type: ['object'],
+                        fields: {
+                            role: { type: ['string'], required: true },
+                            content: { required: true }
+                        }
+                    }
+                }
+            },
+            additionalFields: false
+        },
+        outputs: ['response'],
+        llm: true
+    },
+    [CODE_AGENT_PATH]: {
+        initKwargs: {
+            fields: {
+                code: { type: ['string'], required: true }
+            },
+            additionalFields: false
+        },
+        // Passed straight to the code's main()
+        callKwargs: anyKwargs
+    },
+    'genor_agents.custom_smart_judge_agents.identity_agent.IdentityAgent': {
+        initKwargs: anyKwargs,
+        callKwargs: anyKwargs
+    },
+    'genor_agents.information_extraction.ocrs.pdf_ocr_agent.PDFOCRAgent': {
+        initKwargs: anyKwargs,
+        callKwargs: anyKwargs
+    }
+};
+
+const AGENT_KEYS = ['init_kwargs', 'call_kwargs', 'outputs', 'llm'];
+
+// A `**kwargs` entry accepts any further kwargs, as in Python
+function parseKwargs(value: unknown, path: string): FieldSchema {
+    if (value === null || value === undefined) {
+        return { fields: {}, additionalFields: false };
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new SchemaError('kwargs must be a map of names to definitions', path);
+    }
+
+    const schema: FieldSchema = { fields: {}, additionalFields: false };
+    Object.entries(value).forEach(([name, definition]) => {
+        if (name.startsWith('**')) {
+            schema.additionalFields = true;
+        } else {
+            schema.fields![name] = parseFieldSchema(definition, `${path}.${name}`);
+        }
+    });
+    return schema;
+}
+
+/**
+ * Parses the agent catalog file, keyed by `agent_path`:
+ *
+ *     genor_agents.retrieval.retriever.Retriever:
+ *       init_kwargs:
+ *         index: { type: string, required: true }
+ *       call_kwargs:
+ *         query: { type: string, required: true }
+ *         "**kwargs": any
+ *       outputs: [documents]
+ *
+ * `llm: true` marks agents that take the same model settings as `LLMAgent`.
+ * @throws SchemaError when the file is not a valid catalog
+ */
+export function parseAgentCatalog(text: string): AgentCatalog {
+    const catalog: AgentCatalog = {};
+
+    Object.entries(parseSchemaFile(text, 'agent paths')).forEach(([agentPath, value]) => {
+        const definition = (value ?? {}) as { [key: string]: unknown };
+        if (typeof definition !== 'object' || Array.isArray(definition)) {
+            throw new SchemaError('agent definitions must be a map', agentPath);
+        }
+
+        Object.keys(definition).forEach(key => {
+            if (!AGENT_KEYS.includes(key)) {
+                throw new SchemaError(`unknown key "${key}", expected one of ${AGENT_KEYS.join(', ')}`, agentPath);
+            }
+        });
+
+        const outputs = definition.outputs;
+        if (outputs !== undefined && (!Array.isArray(outputs) || !outputs.every(output => typeof output === 'string'))) {
+            throw new SchemaError('"outputs" must be a list of output names', `${agentPath}.outputs`);
+        }
+
+        if (definition.llm !== undefined && typeof definition.llm !== 'boolean') {
+            throw new SchemaError('"llm" must be true or false', `${agentPath}.llm`);
+        }
+
+        catalog[agentPath] = {
+            initKwargs: parseKwargs(definition.init_kwargs, `${agentPath}.init_kwargs`),
+            callKwargs: parseKwargs(definition.call_kwargs, `${agentPath}.call_kwargs`),
+            outputs,
+            llm: definition.llm
+        };
+    });
+
+    return catalog;
+}
+
+/**
+ * Layers catalogs over each other; a later definition of an agent path
+ * replaces the earlier one.
+ */
+export function mergeAgentCatalogs(...layers: AgentCatalog[]): AgentCatalog {
+    return Object.assign({}, ...layers);
+}
+
+/**
+ * Whether a definition requires the `init_kwargs` block at all.
+ */
+export function requiresInitKwargs(agent: AgentDefinition): boolean {
+    return Object.values(agent.initKwargs.fields || {}).some(field => field.required);
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * The candidate closest to a misspelled name, if any is close enough to be a likely typo.
+ */
+export function closestMatch(name: string, candidates: string[]): string | undefined {
+    const limit = Math.max(1, Math.floor(name.length / 3));
+    let best: string | undefined;
+    let bestDistance = limit + 1;
+
+    candidates.forEach(candidate => {
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    });
+    return best;
+}
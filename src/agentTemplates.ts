@@ -22,7 +22,7 @@ export const agentTemplates: AgentTemplate[] = [
   inputs:
     agent_path: "genor_agents.custom_code.code_agent.CodeAgent"
     init_kwargs:
-      code: >
+      code: |
         def main():
     call_kwargs:
       sample_input: "{{ }}"
@@ -0,0 +1,359 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { isWorkflowPath, lintText, LintOptions } from './lintEngine';
+import { formatReport, REPORT_FORMATS, ReportedProblem, ReportFormat, toReportedProblems } from './lintReport';
+import { LINT_RULES, RuleSetting } from './lintRules';
+import { BUILTIN_NODE_TYPES, mergeNodeTypeSchemas, NODE_TYPE_SCHEMA_FILE, parseNodeTypeSchemas } from './nodeTypeSchema';
+import { AGENT_CATALOG_FILE, BUILTIN_AGENTS, mergeAgentCatalogs, parseAgentCatalog } from './agentCatalog';
+import { BUILTIN_LLM_PROVIDERS, LLM_PROVIDERS_FILE, mergeLlmProviders, parseLlmProviders } from './llmProviders';
+import { parseVariables, substitutionFileCandidates, VARIABLES_FILE } from './substitutions';
+
+const USAGE = `Usage: genor-lint [options] <file|directory|glob>...
+
+Lints GenOr workflow files with the same rules as the GenOr YAML Toolkit extension.
+
+Options:
+  -f, --format <format>   Output format: human (default), json or sarif
+  -r, --rule <id=level>   Set a rule's severity (error, warning, information,
+                          hint or off); can be repeated
+  --root <dir>            Workspace folder holding .genor/ and .vscode/settings.json
+                          (default: the current directory)
+  -h, --help              Show this help
+
+Exits with 1 when an error is found and 2 when the linter cannot run.`;
+
+const RULE_SETTINGS: RuleSetting[] = ['error', 'warning', 'information', 'hint', 'off'];
+
+// Folders never searched for workflows
+const SKIPPED_FOLDERS = new Set(['node_modules', '.git']);
+
+/** A problem with the command line or the workspace configuration */
+class UsageError extends Error { }
+
+interface CliOptions {
+    format: ReportFormat;
+    rules: { [rule: string]: RuleSetting };
+    root: string;
+    patterns: string[];
+    help: boolean;
+}
+
+function parseRuleOption(value: string, rules: { [rule: string]: RuleSetting }): void {
+    const [rule, setting] = value.split('=').map(part => part.trim());
+    if (!(rule in LINT_RULES)) {
+        throw new UsageError(`Unknown rule "${rule}"`);
+    }
+    if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+        throw new UsageError(`Invalid severity "${setting}" for rule "${rule}"; expected one of ${RULE_SETTINGS.join(', ')}`);
+    }
+    rules[rule] = setting as RuleSetting;
+}
+
+function parseArguments(args: string[]): CliOptions {
+    const options: CliOptions = { format: 'human', rules: {}, root: process.cwd(), patterns: [], help: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = (): string => {
+            if (i + 1 >= args.length) {
+                throw new UsageError(`Missing value for ${arg}`);
+            }
+            return args[++i];
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            case '-f':
+            case '--format': {
+                const format = value();
+                if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+                    throw new UsageError(`Unknown format "${format}"; expected one of ${REPORT_FORMATS.join(', ')}`);
+                }
+                options.format = format as ReportFormat;
+                break;
+            }
+            case '-r':
+            case '--rule':
+                parseRuleOption(value(), options.rules);
+                break;
+            case '--root':
+                options.root = path.resolve(value());
+                break;
+            default:
+                if (arg.startsWith('-') && arg !== '-') {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                options.patterns.push(arg);
+        }
+    }
+
+    return options;
+}
+
+// VS Code settings files are JSON with comments and trailing commas
+function parseJsonWithComments(text: string): unknown {
+    let json = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            // Copy strings as they are, so `//` in a URL is kept
+            let close = i + 1;
+            while (close < text.length && text[close] !== '"') {
+                close += text[close] === '\\' ? 2 : 1;
+            }
+            json += text.slice(i, close + 1);
+            i = close;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+            json += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const close = text.indexOf('*/', i + 2);
+            i = close === -1 ? text.length : close + 1;
+        } else {
+            json += char;
+        }
+    }
+    return JSON.parse(json.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The rule severities of parsed VS Code settings. Unknown rules, invalid
+ * severities and a `genorYamlToolkit.lintRules` that is not an object are
+ * passed to `warn` and left out.
+ */
+export function settingsRules(settings: unknown, warn: (message: string) => void): { [rule: string]: RuleSetting } {
+    const rules: { [rule: string]: RuleSetting } = {};
+    if (!isObject(settings)) {
+        warn('expected a JSON object');
+        return rules;
+    }
+
+    const configured = settings['genorYamlToolkit.lintRules'];
+    if (configured === undefined) {
+        return rules;
+    }
+    if (!isObject(configured)) {
+        warn('genorYamlToolkit.lintRules should map rule names to severities');
+        return rules;
+    }
+
+    Object.entries(configured).forEach(([rule, setting]) => {
+        if (!(rule in LINT_RULES)) {
+            warn(`Unknown rule "${rule}"`);
+        } else if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+            warn(`Invalid severity ${JSON.stringify(setting)} for rule "${rule}"; expected one of ${RULE_SETTINGS.join(', ')}`);
+        } else {
+            rules[rule] = setting as RuleSetting;
+        }
+    });
+    return rules;
+}
+
+function readOptionalFile(file: string): string | undefined {
+    try {
+        return fs.readFileSync(file, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Loads the workspace's node types, agent catalog, model providers, variables
+ * and rule severities, as the extension does. Severities given on the command
+ * line win.
+ */
+function loadLintOptions(root: string, ruleOverrides: { [rule: string]: RuleSetting }): LintOptions {
+    const load = <T>(file: string, parse: (text: string) => T): T[] => {
+        const text = readOptionalFile(path.join(root, file));
+        if (text === undefined) {
+            return [];
+        }
+        try {
+            return [parse(text)];
+        } catch (e: any) {
+            throw new UsageError(`Invalid ${file}: ${e.message}`);
+        }
+    };
+
+    let rules: { [rule: string]: RuleSetting } = {};
+    const settingsText = readOptionalFile(path.join(root, '.vscode', 'settings.json'));
+    if (settingsText !== undefined) {
+        try {
+            rules = settingsRules(parseJsonWithComments(settingsText), message => {
+                process.stderr.write(`Warning: .vscode/settings.json: ${message}\n`);
+            });
+        } catch (e: any) {
+            process.stderr.write(`Warning: ignoring .vscode/settings.json: ${e.message}\n`);
+        }
+    }
+
+    return {
+        nodeTypes: mergeNodeTypeSchemas(BUILTIN_NODE_TYPES, ...load(NODE_TYPE_SCHEMA_FILE, parseNodeTypeSchemas)),
+        agents: mergeAgentCatalogs(BUILTIN_AGENTS, ...load(AGENT_CATALOG_FILE, parseAgentCatalog)),
+        llmProviders: mergeLlmProviders(BUILTIN_LLM_PROVIDERS, ...load(LLM_PROVIDERS_FILE, parseLlmProviders)),
+        variables: load(VARIABLES_FILE, parseVariables)[0],
+        rules: { ...rules, ...ruleOverrides }
+    };
+}
+
+function isYamlFile(file: string): boolean {
+    return /\.ya?ml$/i.test(file);
+}
+
+// Workflow files below a directory, in a stable order
+function walk(directory: string, files: string[]): void {
+    const entries = fs.readdirSync(directory, { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    entries.forEach(entry => {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (!SKIPPED_FOLDERS.has(entry.name)) {
+                walk(entryPath, files);
+            }
+        } else if (entry.isFile() && isYamlFile(entry.name) && isWorkflowPath(entryPath)) {
+            files.push(entryPath);
+        }
+    });
+}
+
+/**
+ * Converts a glob to a regular expression over `/`-separated paths. Supports
+ * `**`, `*`, `?` and `{a,b}`, which covers what pre-commit and CI configs use.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` matches any number of folders, including none
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+function hasGlobCharacters(pattern: string): boolean {
+    return /[*?{]/.test(pattern);
+}
+
+// Files matching a glob, searched from the folder before its first wildcard
+function expandGlob(pattern: string): string[] {
+    const normalized = path.resolve(pattern).split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const baseSegments: string[] = [];
+    while (segments.length > 0 && !hasGlobCharacters(segments[0])) {
+        baseSegments.push(segments.shift()!);
+    }
+
+    const base = baseSegments.join('/') || '/';
+    if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) {
+        return [];
+    }
+
+    const matcher = globToRegExp(normalized);
+    const candidates: string[] = [];
+    walk(base, candidates);
+    return candidates.filter(file => matcher.test(file.split(path.sep).join('/')));
+}
+
+/**
+ * The files to lint. Files named explicitly are always read; directories
+ * and globs only pick up workflow paths. Either way, text without a
+ * top-level `nodes` key has no findings, as in the editor.
+ */
+function collectFiles(patterns: string[]): string[] {
+    const files = new Set<string>();
+
+    patterns.forEach(pattern => {
+        let matches: string[];
+        if (fs.existsSync(pattern)) {
+            if (fs.statSync(pattern).isDirectory()) {
+                matches = [];
+                walk(path.resolve(pattern), matches);
+            } else {
+                matches = [path.resolve(pattern)];
+            }
+        } else {
+            matches = hasGlobCharacters(pattern) ? expandGlob(pattern) : [];
+        }
+
+        if (matches.length === 0) {
+            throw new UsageError(`No files matching "${pattern}"`);
+        }
+        matches.forEach(file => files.add(file));
+    });
+
+    return [...files];
+}
+
+export function run(args: string[]): number {
+    try {
+        const options = parseArguments(args);
+        if (options.help) {
+            process.stdout.write(USAGE + '\n');
+            return 0;
+        }
+        if (options.patterns.length === 0) {
+            throw new UsageError('No files given');
+        }
+
+        const lintOptions = loadLintOptions(options.root, options.rules);
+        const problems: ReportedProblem[] = [];
+
+        collectFiles(options.patterns).forEach(file => {
+            const text = fs.readFileSync(file, 'utf8');
+            const relativePath = path.relative(options.root, file) || path.basename(file);
+            const fileExists = (reference: string) =>
+                substitutionFileCandidates(reference, file, options.root).some(candidate => fs.existsSync(candidate));
+            problems.push(...toReportedProblems(relativePath, text, lintText(text, { ...lintOptions, fileExists })));
+        });
+
+        process.stdout.write(formatReport(problems, options.format));
+        return problems.some(problem => problem.severity === 'error') ? 1 : 0;
+    } catch (e: any) {
+        if (e instanceof UsageError) {
+            process.stderr.write(`genor-lint: ${e.message}\n\n${USAGE}\n`);
+        } else {
+            process.stderr.write(`genor-lint: ${e.message}\n`);
+        }
+        return 2;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = run(process.argv.slice(2));
+}
@@ -0,0 +1,418 @@
+/**
+ * A syntax error in an `ifelse` condition. Offsets are relative to the
+ * checked expression.
+ */
+export interface ConditionSyntaxError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+type TokenKind = 'name' | 'number' | 'string' | 'template' | 'operator' | 'end';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Longest first, so `**` is not read as two `*`
+const OPERATORS = [
+    '**', '//', '==', '!=', '<=', '>=', '<<', '>>', ':=', '->',
+    '+', '-', '*', '/', '%', '<', '>', '&', '|', '^', '~',
+    '.', ',', ':', '=', '(', ')', '[', ']', '{', '}'
+];
+
+const BINARY_OPERATORS = ['**', '//', '+', '-', '*', '/', '%', '<<', '>>', '&', '|', '^'];
+
+const COMPARISON_OPERATORS = ['==', '!=', '<=', '>=', '<', '>'];
+
+// Keywords that cannot be used as a value
+const KEYWORDS = ['and', 'or', 'not', 'in', 'is', 'if', 'else', 'for', 'lambda'];
+
+// Strings with an optional r/b/u/f prefix, triple-quoted or not
+const STRING_START = /^(?:[rR][bBfF]?|[bBfF][rR]?|[uU])?("""|'''|"|')/;
+
+// Decimal, hex, octal and binary integers, floats and imaginary numbers, with `_` separators
+const NUMBER = /^(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?[jJ]?)/;
+
+const CLOSING: { [opening: string]: string } = { '(': ')', '[': ']', '{': '}' };
+
+class SyntaxFailure extends Error {
+    constructor(message: string, public start: number, public end: number) {
+        super(message);
+    }
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+
+        // A {{ }} template expression is filled in before the condition is evaluated
+        if (source.startsWith('{{', i)) {
+            const close = source.indexOf('}}', i + 2);
+            if (close === -1) {
+                throw new SyntaxFailure("Unclosed template expression: missing '}}'", start, start + 2);
+            }
+            i = close + 2;
+            tokens.push({ kind: 'template', text: source.slice(start, i), start, end: i });
+            continue;
+        }
+
+        const stringStart = source.slice(i).match(STRING_START);
+        if (stringStart) {
+            const quote = stringStart[1];
+            i += stringStart[0].length;
+            while (i < source.length && !source.startsWith(quote, i)) {
+                i += source[i] === '\\' ? 2 : 1;
+            }
+            if (i >= source.length) {
+                throw new SyntaxFailure('Unclosed string', start, source.length);
+            }
+            i += quote.length;
+            tokens.push({ kind: 'string', text: source.slice(start, i), start, end: i });
+            continue;
+        }
+
+        const number = source.slice(i).match(NUMBER);
+        if (number) {
+            i += number[0].length;
+            tokens.push({ kind: 'number', text: number[0], start, end: i });
+            continue;
+        }
+
+        const name = source.slice(i).match(/^[A-Za-z_]\w*/);
+        if (name) {
+            i += name[0].length;
+            tokens.push({ kind: 'name', text: name[0], start, end: i });
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (!operator) {
+            throw new SyntaxFailure(`Unexpected character '${char}'`, start, start + 1);
+        }
+        i += operator.length;
+        tokens.push({ kind: 'operator', text: operator, start, end: i });
+    }
+
+    tokens.push({ kind: 'end', text: '', start: source.length, end: source.length });
+    return tokens;
+}
+
+/**
+ * A recursive descent parser for Python expressions, which conditions are
+ * written in. It only checks the structure; names are not resolved.
+ */
+class ConditionParser {
+    private index = 0;
+
+    constructor(private tokens: Token[]) { }
+
+    parse(): void {
+        this.expression();
+        const token = this.peek();
+        if (token.kind !== 'end') {
+            throw this.unexpected(token);
+        }
+    }
+
+    private peek(ahead: number = 0): Token {
+        return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.kind !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private isOperator(text: string, token: Token = this.peek()): boolean {
+        return token.kind === 'operator' && token.text === text;
+    }
+
+    private isKeyword(text: string, token: Token = this.peek()): boolean {
+        return token.kind === 'name' && token.text === text;
+    }
+
+    private unexpected(token: Token): SyntaxFailure {
+        if (token.kind === 'end') {
+            return new SyntaxFailure('Incomplete condition: expected a value at the end', token.start, token.end);
+        }
+        if (this.isOperator('=', token)) {
+            return new SyntaxFailure("Unexpected '=': use '==' to compare values", token.start, token.end);
+        }
+        return new SyntaxFailure(`Unexpected '${token.text}'`, token.start, token.end);
+    }
+
+    // `a if test else b`, `lambda x: x` and everything below them
+    private expression(): void {
+        if (this.isKeyword('lambda')) {
+            this.lambda();
+            return;
+        }
+        this.disjunction();
+        if (this.isKeyword('if')) {
+            this.next();
+            this.disjunction();
+            if (!this.isKeyword('else')) {
+                throw new SyntaxFailure("Expected 'else' in conditional expression", this.peek().start, this.peek().end);
+            }
+            this.next();
+            this.expression();
+        }
+    }
+
+    // `name := value` where an assignment expression may be used, or any expression
+    private namedExpression(): void {
+        if (this.peek().kind === 'name' && this.isOperator(':=', this.peek(1))) {
+            this.atom();
+            this.next();
+        }
+        this.expression();
+    }
+
+    // `lambda a, b=1, *args: body`
+    private lambda(): void {
+        this.next();
+        while (!this.isOperator(':')) {
+            const token = this.next();
+            if (this.isOperator('=', token)) {
+                this.expression();
+            } else if (token.kind === 'name' ? KEYWORDS.includes(token.text) : !['*', '**', '/', ','].includes(token.text)) {
+                throw this.unexpected(token);
+            }
+        }
+        this.next();
+        this.expression();
+    }
+
+    private disjunction(): void {
+        this.conjunction();
+        while (this.isKeyword('or')) {
+            this.next();
+            this.conjunction();
+        }
+    }
+
+    private conjunction(): void {
+        this.negation();
+        while (this.isKeyword('and')) {
+            this.next();
+            this.negation();
+        }
+    }
+
+    private negation(): void {
+        if (this.isKeyword('not')) {
+            this.next();
+            this.negation();
+            return;
+        }
+        this.comparison();
+    }
+
+    private comparison(): void {
+        this.arithmetic();
+        for (;;) {
+            const token = this.peek();
+            if (token.kind === 'operator' && COMPARISON_OPERATORS.includes(token.text)) {
+                this.next();
+            } else if (this.isKeyword('in')) {
+                this.next();
+            } else if (this.isKeyword('not') && this.isKeyword('in', this.peek(1))) {
+                this.next();
+                this.next();
+            } else if (this.isKeyword('is')) {
+                this.next();
+                if (this.isKeyword('not')) {
+                    this.next();
+                }
+            } else {
+                return;
+            }
+            this.arithmetic();
+        }
+    }
+
+    private arithmetic(): void {
+        this.unary();
+        while (this.peek().kind === 'operator' && BINARY_OPERATORS.includes(this.peek().text)) {
+            this.next();
+            this.unary();
+        }
+    }
+
+    private unary(): void {
+        if (this.isOperator('-') || this.isOperator('+') || this.isOperator('~')) {
+            this.next();
+            this.unary();
+            return;
+        }
+        this.postfix();
+    }
+
+    private postfix(): void {
+        this.atom();
+        for (;;) {
+            if (this.isOperator('.')) {
+                this.next();
+                const name = this.next();
+                if (name.kind !== 'name') {
+                    throw new SyntaxFailure("Expected a name after '.'", name.start, name.end);
+                }
+            } else if (this.isOperator('(')) {
+                this.sequence(this.next(), 'call');
+            } else if (this.isOperator('[')) {
+                this.sequence(this.next(), 'subscript');
+            } else {
+                return;
+            }
+        }
+    }
+
+    private atom(): void {
+        const token = this.peek();
+        switch (token.kind) {
+            case 'name':
+                if (KEYWORDS.includes(token.text)) {
+                    throw this.unexpected(token);
+                }
+                this.next();
+                return;
+            case 'number':
+            case 'template':
+                this.next();
+                return;
+            case 'string':
+                // Adjacent strings are concatenated
+                while (this.peek().kind === 'string') {
+                    this.next();
+                }
+                return;
+            case 'operator':
+                if (token.text in CLOSING) {
+                    this.sequence(this.next(), token.text === '{' ? 'dict' : 'list');
+                    return;
+                }
+        }
+        throw this.unexpected(token);
+    }
+
+    /**
+     * Comma separated items up to the bracket closing `opening`. Subscripts
+     * may hold slices and dicts `key: value` pairs.
+     */
+    private sequence(opening: Token, kind: 'list' | 'dict' | 'call' | 'subscript'): void {
+        const closing = CLOSING[opening.text];
+
+        while (!this.isOperator(closing)) {
+            if (this.peek().kind === 'end') {
+                throw new SyntaxFailure(`Unclosed '${opening.text}'`, opening.start, opening.end);
+            }
+
+            if (kind === 'subscript') {
+                this.slice(closing);
+            } else {
+                // `*items` and `**mapping` unpack into the call or display
+                if (this.isOperator('*') || this.isOperator('**')) {
+                    this.next();
+                }
+                this.namedExpression();
+                if (kind === 'dict' && this.isOperator(':')) {
+                    this.next();
+                    this.expression();
+                } else if (kind === 'call' && this.isOperator('=')) {
+                    this.next();
+                    this.expression();
+                }
+                if (this.isKeyword('for')) {
+                    this.comprehension();
+                    break;
+                }
+            }
+
+            if (!this.isOperator(',')) {
+                break;
+            }
+            this.next();
+        }
+
+        const token = this.peek();
+        if (token.kind === 'end') {
+            throw new SyntaxFailure(`Unclosed '${opening.text}'`, opening.start, opening.end);
+        }
+        if (!this.isOperator(closing)) {
+            throw this.unexpected(token);
+        }
+        this.next();
+    }
+
+    // The `for x in items if test` clauses after the first item of a comprehension or generator
+    private comprehension(): void {
+        while (this.isKeyword('for')) {
+            this.next();
+            do {
+                if (this.isOperator(',')) {
+                    this.next();
+                }
+                if (this.isOperator('*')) {
+                    this.next();
+                }
+                this.postfix();
+            } while (this.isOperator(','));
+            if (!this.isKeyword('in')) {
+                throw new SyntaxFailure("Expected 'in' in comprehension", this.peek().start, this.peek().end);
+            }
+            this.next();
+            this.disjunction();
+            while (this.isKeyword('if')) {
+                this.next();
+                this.disjunction();
+            }
+        }
+    }
+
+    // `a`, `a:b`, `:b`, `a:` or `a:b:c`
+    private slice(closing: string): void {
+        const isBound = () => !this.isOperator(':') && !this.isOperator(',') && !this.isOperator(closing);
+        if (isBound()) {
+            this.expression();
+        }
+        for (let colons = 0; colons < 2 && this.isOperator(':'); colons++) {
+            this.next();
+            if (isBound()) {
+                this.expression();
+            }
+        }
+    }
+}
+
+/**
+ * Checks the syntax of a condition, reporting the first error found.
+ * `{{ }}` template expressions are treated as values.
+ */
+export function checkConditionSyntax(expression: string): ConditionSyntaxError | undefined {
+    try {
+        new ConditionParser(tokenize(expression)).parse();
+        return undefined;
+    } catch (e) {
+        if (e instanceof SyntaxFailure) {
+            return { message: e.message, start: e.start, end: e.end };
+        }
+        throw e;
+    }
+}
@@ -1,65 +1,13 @@
 import * as vscode from 'vscode';
-import { parseDocument } from 'yaml';
 import { agentTemplates, TemplateManager } from './agentTemplates';
 import { activateLanguageFeatures } from './yamlLanguageConfiguration';
-import { lintYaml } from './yamlLinter';
-
-function extractPromptBlocks(text: string): { modifiedText: string; blocks: string[] } {
-    const lines = text.split(/\r?\n/);
-    const blocks: string[] = [];
-    const modifiedLines: string[] = [];
-    let i = 0;
-
-    while (i < lines.length) {
-        const line = lines[i];
-        const promptMatch = line.match(/^(\s*)prompt:\s*>\s*$/);
-        if (promptMatch) {
-            const baseIndent = promptMatch[1];
-            const originalBlockLines = [line];
-            i++;
-            // Collect all lines that are indented more than the prompt line's indent,
-            // or are blank (preserve them as part of the block)
-            while (i < lines.length) {
-                const currentLine = lines[i];
-                if (currentLine.trim() === '') {
-                    originalBlockLines.push(currentLine);
-                    i++;
-                    continue;
-                }
-                const currentIndentMatch = currentLine.match(/^(\s*)/);
-                if (currentIndentMatch && currentIndentMatch[1].length > baseIndent.length) {
-                    originalBlockLines.push(currentLine);
-                    i++;
-                } else {
-                    break;
-                }
-            }
-            const originalBlock = originalBlockLines.join('\n');
-            const placeholder = `${baseIndent}prompt: "@@PROMPT_BLOCK_${blocks.length}@@"`;
-            blocks.push(originalBlock);
-            modifiedLines.push(placeholder);
-        } else {
-            modifiedLines.push(line);
-            i++;
-        }
-    }
-    return { modifiedText: modifiedLines.join('\n'), blocks };
-}
-
-/**
- * Restores placeholders with the original prompt blocks.
- * Looks for lines matching: {indent}prompt: "@@PROMPT_BLOCK_{index}@@"
- * and replaces them with the original block.
- */
-function restorePromptBlocks(formattedText: string, blocks: string[]): string {
-    return formattedText.replace(
-        /^(?<indent>\s*)prompt:\s*"@@PROMPT_BLOCK_(\d+)@@"\s*$/gm,
-        (match, indent, index) => {
-            const originalBlock = blocks[Number(index)];
-            return originalBlock;
-        }
-    );
-}
+import { activateFormatter, provideFormattingEdits, reportFormattingError } from './yamlFormattingProvider';
+import { activateLinter } from './yamlLinter';
+import { activateCodeActions } from './yamlCodeActions';
+import { activateSubstitutions } from './yamlSubstitutions';
+import { activateWorkflowIndex } from './yamlWorkflowIndex';
+import { activateRename } from './yamlRename';
+import { activateCompletions } from './yamlCompletions';
 
 export function activate(context: vscode.ExtensionContext) {
     const templateManager = new TemplateManager(context);
@@ -67,39 +15,23 @@ export function activate(context: vscode.ExtensionContext) {
     let disposable = vscode.commands.registerCommand('genor-yaml-toolkit.formatYaml', async () => {
         const editor = vscode.window.activeTextEditor;
         if (editor && editor.document.languageId === 'yaml') {
-            const config = vscode.workspace.getConfiguration('genorYamlToolkit');
-
-            const indent = config.get<number>('indentation', 2);
-            const lineWidth = config.get<number>('wrapLines', -1);
-
-            const originalText = editor.document.getText();
-            const { modifiedText, blocks } = extractPromptBlocks(originalText);
-
             try {
-                const doc = parseDocument(modifiedText);
-
-                const formattedYaml = doc.toString({
-                    indent,
-                    lineWidth
-                });
-
-                const finalYaml = restorePromptBlocks(formattedYaml, blocks);
+                const edits = provideFormattingEdits(editor.document);
 
                 await editor.edit(editBuilder => {
-                    const fullRange = new vscode.Range(
-                        editor.document.positionAt(0),
-                        editor.document.positionAt(originalText.length)
-                    );
-                    editBuilder.replace(fullRange, finalYaml);
+                    edits.forEach(edit => editBuilder.replace(edit.range, edit.newText));
                 });
             } catch (error) {
-                vscode.window.showErrorMessage("Invalid YAML format.");
+                reportFormattingError(editor.document, error);
             }
         }
     });
 
     context.subscriptions.push(disposable);
 
+    // Register document and range formatting providers (Shift+Alt+F, Format Selection, format on save)
+    context.subscriptions.push(...activateFormatter());
+
     let insertAgentCommand = vscode.commands.registerCommand('genor-yaml-toolkit.insertAgent', async () => {
         const editor = vscode.window.activeTextEditor;
         if (!editor || editor.document.languageId !== 'yaml') {
@@ -503,27 +435,28 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(manageTemplatesCommand);
 
+    // Index node definitions and references once, for navigation across files
+    context.subscriptions.push(...activateWorkflowIndex());
+
     // Add language features
     const languageFeatures = activateLanguageFeatures();
     context.subscriptions.push(...languageFeatures);
 
-    let lintCommand = vscode.commands.registerCommand('genor-yaml-toolkit.lintYaml', () => {
-        const editor = vscode.window.activeTextEditor;
-        if (editor && editor.document.languageId === 'yaml') {
-            lintYaml(editor.document);
-        }
-    });
+    // Rename nodes along with every reference to them
+    context.subscriptions.push(...activateRename());
 
-    context.subscriptions.push(lintCommand);
+    // Completions for node names, outputs, keys, node types and agent paths
+    context.subscriptions.push(...activateCompletions());
 
-    // Add automatic linting on save
-    let diagnosticsSubscription = vscode.workspace.onDidSaveTextDocument((document) => {
-        if (document.languageId === 'yaml') {
-            lintYaml(document);
-        }
-    });
+    // Add linting: on open, as you type, on save, and for the whole workspace
+    const linterFeatures = activateLinter();
+    context.subscriptions.push(...linterFeatures);
+
+    // Quick fixes for lint diagnostics, stubbing missing nodes from the agent templates
+    context.subscriptions.push(...activateCodeActions(templateManager));
 
-    context.subscriptions.push(diagnosticsSubscription);
+    // Go to definition and hover previews for ${...} substitutions
+    context.subscriptions.push(...activateSubstitutions());
 }
 
 export function deactivate() { }
\ No newline at end of file
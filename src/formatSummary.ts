@@ -0,0 +1,52 @@
+import { TextChange } from './lineDiff';
+import { RoundTripError } from './yamlRoundTrip';
+
+/**
+ * A workflow file that formatting would change, with the size of the change.
+ */
+export interface FormattedFile {
+    path: string;
+    linesAdded: number;
+    linesRemoved: number;
+}
+
+/**
+ * A workflow file that could not be formatted and why.
+ */
+export interface SkippedFile {
+    path: string;
+    error: unknown;
+}
+
+// Counts a final line without a line break too
+function countLines(text: string): number {
+    return text.split('\n').length - (text === '' || text.endsWith('\n') ? 1 : 0);
+}
+
+/**
+ * Counts the lines that line changes remove from the original text and add.
+ */
+export function countChangedLines(original: string, changes: TextChange[]): { linesAdded: number; linesRemoved: number } {
+    let linesAdded = 0;
+    let linesRemoved = 0;
+    changes.forEach(change => {
+        linesRemoved += countLines(original.slice(change.start, change.end));
+        linesAdded += countLines(change.text);
+    });
+    return { linesAdded, linesRemoved };
+}
+
+/**
+ * The dry-run listing of "Format All Workflows": one line per file that would
+ * change and per file that was skipped.
+ */
+export function describeDryRun(files: FormattedFile[], skipped: SkippedFile[]): string[] {
+    return [
+        `Dry run: ${files.length} workflow file(s) would change`,
+        ...files.map(file => `  ${file.path}: +${file.linesAdded} -${file.linesRemoved} lines`),
+        ...skipped.map(file => {
+            const reason = file.error instanceof RoundTripError ? file.error.message : 'invalid YAML';
+            return `  ${file.path}: skipped (${reason})`;
+        })
+    ];
+}
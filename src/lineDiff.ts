@@ -0,0 +1,170 @@
+/**
+ * Replacement of a span of the original text. Offsets refer to the original
+ * text and always fall on line boundaries.
+ */
+export interface TextChange {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Splits text into lines that keep their terminators, so "a\nb" -> ["a\n", "b"]
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function normalizeEol(line: string): string {
+    return line.endsWith('\r\n') ? line.slice(0, -2) + '\n' : line;
+}
+
+// Edit distance beyond which the changed lines are replaced as one block;
+// keeps formatting a heavily changed document fast and its memory bounded
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Myers' O((N+M)D) diff over two line arrays. Returns, for every original line,
+ * whether it is kept, and for every modified line, whether it is new; or
+ * undefined when more than `maxDistance` lines are added or removed.
+ */
+function diffLines(a: string[], b: string[], maxDistance: number): { keptA: boolean[]; keptB: boolean[] } | undefined {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, maxDistance);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // Before step d only diagonals -(d-1)..d-1 are set, so only that window is kept
+    const trace: Int32Array[] = [];
+    let done = false;
+
+    for (let d = 0; d <= max && !done; d++) {
+        trace.push(v.slice(offset - d + 1, offset + d));
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                x = v[offset + k + 1];
+            } else {
+                x = v[offset + k - 1] + 1;
+            }
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                done = true;
+                break;
+            }
+        }
+    }
+    if (!done) {
+        return undefined;
+    }
+
+    // Walk the trace backwards to mark the lines on the snake diagonals
+    const keptA = new Array<boolean>(n).fill(false);
+    const keptB = new Array<boolean>(m).fill(false);
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const window = trace[d];
+        const vd = (k: number) => window[k + d - 1];
+        const k = x - y;
+        let prevK: number;
+        if (k === -d || (k !== d && vd(k - 1) < vd(k + 1))) {
+            prevK = k + 1;
+        } else {
+            prevK = k - 1;
+        }
+        const prevX = d === 0 ? 0 : vd(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            keptA[x] = true;
+            keptB[y] = true;
+        }
+        if (d > 0) {
+            x = prevX;
+            y = prevY;
+        }
+    }
+
+    return { keptA, keptB };
+}
+
+/**
+ * Computes the smallest set of whole-line replacements that turn `original`
+ * into `modified`. Line endings in the replacement text follow `eol`, and a
+ * CRLF/LF difference alone never counts as a change. When too many lines
+ * differ, the changed region is replaced in one piece instead.
+ */
+export function computeLineChanges(original: string, modified: string, eol: string = '\n'): TextChange[] {
+    const originalLines = splitLines(original);
+    const modifiedLines = splitLines(modified).map(line => {
+        const normalized = normalizeEol(line);
+        return normalized.endsWith('\n') ? normalized.slice(0, -1) + eol : normalized;
+    });
+
+    const a = originalLines.map(normalizeEol);
+    const b = modifiedLines.map(normalizeEol);
+
+    // Skip the common prefix and suffix so the diff only sees the changed middle
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const lineOffsets: number[] = [0];
+    for (const line of originalLines) {
+        lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length);
+    }
+
+    const diff = diffLines(
+        a.slice(prefix, a.length - suffix),
+        b.slice(prefix, b.length - suffix),
+        MAX_EDIT_DISTANCE
+    );
+    if (!diff) {
+        return [{
+            start: lineOffsets[prefix],
+            end: lineOffsets[a.length - suffix],
+            text: modifiedLines.slice(prefix, b.length - suffix).join('')
+        }];
+    }
+
+    const { keptA, keptB } = diff;
+
+    const changes: TextChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < keptA.length || j < keptB.length) {
+        if (i < keptA.length && j < keptB.length && keptA[i] && keptB[j]) {
+            i++;
+            j++;
+            continue;
+        }
+
+        const startA = i;
+        const startB = j;
+        while (i < keptA.length && !keptA[i]) {
+            i++;
+        }
+        while (j < keptB.length && !keptB[j]) {
+            j++;
+        }
+
+        changes.push({
+            start: lineOffsets[prefix + startA],
+            end: lineOffsets[prefix + i],
+            text: modifiedLines.slice(prefix + startB, prefix + j).join('')
+        });
+    }
+
+    return changes;
+}
@@ -0,0 +1,1517 @@
+import * as path from 'path';
+import { isMap, isPair, isScalar, isSeq, parseAllDocuments, visit, Document, Node, Pair, Scalar, YAMLMap, YAMLSeq } from 'yaml';
+import {
+    buildWorkflowGraph,
+    collectStringScalars,
+    declaredOutputs,
+    findDefiningScopes,
+    findCycles,
+    findDeadEndNodes,
+    findEntryNodes,
+    findUnreachableNodes,
+    findUpstreamNodes,
+    isLoopBody,
+    resolveNode,
+    WorkflowGraph,
+    WorkflowNode
+} from './workflowGraph';
+import { findTemplateExpressions, isEmptyExpression } from './templateExpressions';
+import { checkConditionSyntax } from './conditionExpressions';
+import { BUILTIN_LLM_PROVIDERS, LLM_PROVIDERS_FILE, LlmProvider, LlmProviders, MESSAGE_ROLES } from './llmProviders';
+import { findSubstitutions, isEmptySubstitution, isFileReference, SubstitutionVariables, VARIABLES_FILE } from './substitutions';
+import { LintFix, MapInsertion } from './lintFixes';
+import { isSuppressed, LintRule, parseSuppressions, RuleSetting } from './lintRules';
+import { BUILTIN_NODE_TYPES, FieldSchema, NodeTypeSchemas, ValueType, valueTypeOf } from './nodeTypeSchema';
+import { AGENT_CATALOG_FILE, AgentCatalog, BUILTIN_AGENTS, closestMatch, CODE_AGENT_PATH, requiresInitKwargs } from './agentCatalog';
+import { checkPythonCode } from './pythonCode';
+
+export type LintSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+export interface LintError {
+    message: string;
+    severity: LintSeverity;
+    // Offsets into the document text
+    start: number;
+    end: number;
+    code: LintRule;
+    // Set on findings that have a quick fix
+    fix?: LintFix;
+}
+
+/**
+ * What to lint against. Anything left out falls back to the built-in
+ * definitions and default severities.
+ */
+export interface LintOptions {
+    nodeTypes?: NodeTypeSchemas;
+    agents?: AgentCatalog;
+    /** Severity per rule ID, as in the `genorYamlToolkit.lintRules` setting */
+    rules?: { [rule: string]: RuleSetting };
+    /** Model providers LLM agents can use */
+    llmProviders?: LlmProviders;
+    /** Variables `${NAME}` substitutions can use; names are not checked without a variables file */
+    variables?: SubstitutionVariables;
+    /** Whether a `${path}` substitution points at a file; file references are not checked without it */
+    fileExists?: (reference: string) => boolean;
+}
+
+/**
+ * Whether a YAML file should be treated as a GenOr workflow. Generated
+ * combined_graph files are excluded so they do not duplicate their sources,
+ * as are the toolkit's own settings under `.genor/`.
+ */
+export function isWorkflowPath(filePath: string): boolean {
+    const fileName = path.basename(filePath).toLowerCase();
+    const folderName = path.basename(path.dirname(filePath));
+    return !fileName.includes('combined_graph') && folderName !== '.genor';
+}
+
+/**
+ * Whether text looks like a workflow: one of its documents has a top-level
+ * `nodes` key. Checked on the text so a workflow with a syntax error still counts.
+ */
+export function isWorkflowText(text: string): boolean {
+    return /^(?:nodes|"nodes"|'nodes')[ \t]*:/m.test(text);
+}
+
+interface LintContext {
+    text: string;
+    nodeTypes: NodeTypeSchemas;
+    agents: AgentCatalog;
+    llmProviders: LlmProviders;
+    variables?: SubstitutionVariables;
+    fileExists?: (reference: string) => boolean;
+}
+
+/**
+ * Lints the text of a workflow file. This is the whole rule engine; the
+ * editor and the command line linter only differ in how they report.
+ * Other YAML, such as compose files or CI pipelines, has no findings.
+ */
+export function lintText(text: string, options: LintOptions = {}): LintError[] {
+    if (!isWorkflowText(text)) {
+        return [];
+    }
+
+    const context: LintContext = {
+        text,
+        nodeTypes: options.nodeTypes ?? BUILTIN_NODE_TYPES,
+        agents: options.agents ?? BUILTIN_AGENTS,
+        llmProviders: options.llmProviders ?? BUILTIN_LLM_PROVIDERS,
+        variables: options.variables,
+        fileExists: options.fileExists
+    };
+
+    const lintErrors: LintError[] = [];
+    let docs: Document.Parsed[] = [];
+
+    try {
+        // Duplicate keys are reported by the linter itself, with node-aware messages
+        docs = parseAllDocuments(text, { uniqueKeys: false, prettyErrors: false });
+    } catch (e: any) {
+        lintErrors.push({
+            message: `YAML Syntax Error: ${e.message}`,
+            severity: 'error',
+            start: 0,
+            end: 1,
+            code: 'yaml-syntax'
+        });
+    }
+
+    // Every `---` separated document is its own workflow
+    for (const doc of docs) {
+        lintErrors.push(...parserProblems(doc, text));
+        lintErrors.push(...lintWorkflowDocument(doc, context));
+    }
+
+    return applyRuleSettings(text, lintErrors.map(error => widenEmptyRange(text, error)), options.rules || {});
+}
+
+// Empty nodes (such as a bare `-` list item) have no width; widen them back
+// to the indicator before them so they stay visible
+function widenEmptyRange(text: string, lintError: LintError): LintError {
+    if (lintError.start !== lintError.end) {
+        return lintError;
+    }
+
+    let start = lintError.start;
+    while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) {
+        start--;
+    }
+    return { ...lintError, start: Math.max(0, start - 1) };
+}
+
+// The parser's own errors and warnings, at the positions it reports
+function parserProblems(doc: Document.Parsed, text: string): LintError[] {
+    // Errors at the end of the input point one past it
+    const clamp = (offset: number) => Math.min(offset, text.length);
+    return [
+        ...doc.errors.map((error): LintError => ({
+            message: `YAML Syntax Error: ${error.message}`,
+            severity: 'error',
+            start: clamp(error.pos[0]),
+            end: clamp(error.pos[1]),
+            code: 'yaml-syntax'
+        })),
+        ...doc.warnings.map((warning): LintError => ({
+            message: `YAML Warning: ${warning.message}`,
+            severity: 'warning',
+            start: clamp(warning.pos[0]),
+            end: clamp(warning.pos[1]),
+            code: 'yaml-warning'
+        }))
+    ];
+}
+
+/**
+ * Applies the rule severities and the document's `# genor-lint-disable`
+ * comments, dropping findings that are switched off.
+ */
+function applyRuleSettings(text: string, lintErrors: LintError[], rules: { [rule: string]: RuleSetting }): LintError[] {
+    const suppressions = parseSuppressions(text);
+
+    // Start offset of every line, to find the line of each finding
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    const lineOf = (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return low;
+    };
+
+    return lintErrors
+        .filter(error => rules[error.code] !== 'off')
+        .filter(error => !isSuppressed(suppressions, error.code, lineOf(error.start)))
+        .map(error => {
+            const severity = rules[error.code];
+            return severity && severity !== 'off' ? { ...error, severity } : error;
+        });
+}
+
+function lintWorkflowDocument(doc: Document.Parsed, context: LintContext): LintError[] {
+    const lintErrors: LintError[] = [];
+
+    // Check for keys set twice in the same map, including node names
+    lintErrors.push(...checkDuplicateKeys(doc, context.text));
+
+    const nodes = doc.get('nodes');
+    if (!nodes || !(nodes instanceof YAMLMap)) {
+        return lintErrors;
+    }
+
+    // Check ${...} substitutions anywhere in the workflow; other YAML, such as
+    // compose files, uses the same syntax for environment variables
+    lintErrors.push(...checkSubstitutions(doc, context));
+
+    // Validate nodes recursively
+    lintErrors.push(...validateNodes(nodes, context));
+
+    const nodesPair = (doc.contents as YAMLMap).items.find(pair => keyName(pair) === 'nodes')!;
+    const graph = buildWorkflowGraph(nodes, nodesPair.key as Node);
+
+    // Check that every reference resolves within its own scope
+    lintErrors.push(...checkReferences(graph));
+
+    // Check for subgraph nodes hiding a node of an enclosing scope
+    lintErrors.push(...checkShadowedNodes(graph));
+
+    // Check the flow between nodes: cycles, reachability, entry and exit nodes
+    lintErrors.push(...checkGraph(graph));
+
+    // Check {{ node.outputs.field }} expressions against the graph
+    lintErrors.push(...checkTemplateExpressions(graph, context.text));
+
+    // Check that aggregators collect outputs their sources produce
+    lintErrors.push(...checkAggregators(graph));
+
+    return lintErrors;
+}
+
+// One-based line number of an offset, for messages
+function lineNumberAt(text: string, offset: number): number {
+    let line = 1;
+    for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) {
+        line++;
+    }
+    return line;
+}
+
+/**
+ * Reports keys that appear more than once in a map. The document is parsed
+ * without the parser's own duplicate check, so a repeated node name (which
+ * would silently replace the earlier node) gets its own message.
+ */
+function checkDuplicateKeys(doc: Document.Parsed, text: string): LintError[] {
+    const errors: LintError[] = [];
+
+    visit(doc, {
+        Map(_, map, path) {
+            // Maps under a `nodes` key hold node definitions
+            const parent = path[path.length - 1];
+            const isNodesMap = isPair(parent) && isScalar(parent.key) && parent.key.value === 'nodes';
+
+            const seen = new Map<string, Node>();
+            map.items.forEach(pair => {
+                const key = pair.key as Node | null;
+                if (!key?.range) {
+                    return;
+                }
+
+                const name = keyName(pair);
+                const first = seen.get(name);
+                if (!first) {
+                    seen.set(name, key);
+                    return;
+                }
+
+                const line = lineNumberAt(text, first.range![0]);
+                errors.push(isNodesMap
+                    ? createLintError(key, `Duplicate node "${name}": already defined on line ${line}`, 'error', 'duplicate-node')
+                    : createLintError(key, `Duplicate key "${name}": already set on line ${line}`, 'error', 'duplicate-key'));
+            });
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Warns about subgraph nodes named like a node of an enclosing scope: inside
+ * the subgraph the name always means the inner node, so the outer one can
+ * no longer be referenced from there.
+ */
+function checkShadowedNodes(graph: WorkflowGraph): LintError[] {
+    const errors: LintError[] = [];
+
+    graph.nodes.forEach(node => {
+        if (!node.subgraph) {
+            return;
+        }
+
+        node.subgraph.nodes.forEach(inner => {
+            const outer = resolveNode(graph, inner.name);
+            if (outer) {
+                errors.push(createLintError(
+                    inner.key,
+                    `Node "${inner.name}" in the subgraph of node "${node.name}" has the same name as a node outside it; ` +
+                    `references to "${inner.name}" inside the subgraph mean this node`,
+                    'warning',
+                    'shadowed-node'
+                ));
+            }
+        });
+
+        errors.push(...checkShadowedNodes(node.subgraph));
+    });
+
+    return errors;
+}
+
+/**
+ * Checks `${...}` substitutions: empty placeholders, files that do not exist
+ * and variables the variables file does not define.
+ */
+function checkSubstitutions(doc: Document.Parsed, context: LintContext): LintError[] {
+    const errors: LintError[] = [];
+
+    visit(doc, {
+        Scalar(_, scalar) {
+            if (typeof scalar.value !== 'string' || !scalar.range) {
+                return;
+            }
+
+            const source = context.text.slice(scalar.range[0], scalar.range[1]);
+            findSubstitutions(source, scalar.range[0]).forEach(substitution => {
+                const reference = substitution.body.trim();
+                if (isEmptySubstitution(substitution)) {
+                    errors.push({
+                        message: 'Empty substitution "${}" should name a variable or a file',
+                        severity: 'warning',
+                        start: substitution.start,
+                        end: substitution.end,
+                        code: 'empty-substitution'
+                    });
+                } else if (isFileReference(reference)) {
+                    if (context.fileExists && !context.fileExists(reference)) {
+                        errors.push({
+                            message: `Substitution refers to a file that does not exist: ${reference}`,
+                            severity: 'error',
+                            start: substitution.bodyStart,
+                            end: substitution.bodyEnd,
+                            code: 'missing-substitution-file'
+                        });
+                    }
+                } else if (context.variables && !(reference in context.variables)) {
+                    const suggestion = closestMatch(reference, Object.keys(context.variables));
+                    errors.push({
+                        message: `Unknown substitution variable "${reference}"` +
+                            (suggestion ? ` (did you mean "${suggestion}"?)` : ` (define it in ${VARIABLES_FILE})`),
+                        severity: 'warning',
+                        start: substitution.bodyStart,
+                        end: substitution.bodyEnd,
+                        code: 'unknown-substitution-variable'
+                    });
+                }
+            });
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Walks out from a node to the node that contains it in an enclosing scope,
+ * e.g. from a node inside an iterator's subgraph to the iterator itself.
+ */
+function enclosingNodeIn(scope: WorkflowGraph, graph: WorkflowGraph, node: WorkflowNode): WorkflowNode | undefined {
+    let current: WorkflowNode | undefined = node;
+    let currentGraph: WorkflowGraph | undefined = graph;
+    while (currentGraph && currentGraph !== scope) {
+        current = currentGraph.owner;
+        currentGraph = currentGraph.parent;
+    }
+    return currentGraph ? current : undefined;
+}
+
+function checkTemplateExpressions(graph: WorkflowGraph, text: string): LintError[] {
+    const errors: LintError[] = [];
+
+    graph.nodes.forEach(consumer => {
+        const scalars: Scalar[] = [];
+        collectStringScalars(consumer.value, scalars);
+
+        scalars.forEach(scalar => {
+            if (!scalar.range) {
+                return;
+            }
+
+            const source = text.slice(scalar.range[0], scalar.range[1]);
+            findTemplateExpressions(source, scalar.range[0]).forEach(expression => {
+                if (isEmptyExpression(expression)) {
+                    errors.push({
+                        message: `Node "${consumer.name}": empty template expression "{{ }}" should reference a value`,
+                        severity: 'warning',
+                        start: expression.start,
+                        end: expression.end,
+                        code: 'empty-template'
+                    });
+                    return;
+                }
+
+                expression.references.forEach(reference => {
+                    const resolved = resolveNode(graph, reference.node);
+                    if (!resolved) {
+                        errors.push({
+                            message: `Node "${consumer.name}": template expression references unknown node "${reference.node}"`,
+                            severity: 'error',
+                            start: reference.start,
+                            end: reference.start + reference.node.length,
+                            code: 'template-unknown-node'
+                        });
+                        return;
+                    }
+
+                    // The producer must run before the consumer (or the loop containing it)
+                    const dependent = enclosingNodeIn(resolved.graph, graph, consumer);
+                    if (!dependent || dependent === resolved.node ||
+                        !findUpstreamNodes(resolved.graph, dependent).has(resolved.node)) {
+                        errors.push({
+                            message: `Node "${consumer.name}": node "${reference.node}" is not upstream, so its outputs are not available here`,
+                            severity: 'error',
+                            start: reference.start,
+                            end: reference.start + reference.node.length,
+                            code: 'template-not-upstream'
+                        });
+                    }
+
+                    const outputs = declaredOutputs(resolved.node);
+                    if (reference.field !== undefined && outputs && !outputs.includes(reference.field)) {
+                        errors.push({
+                            message: `Node "${reference.node}" does not declare output "${reference.field}"` +
+                                (outputs.length > 0 ? ` (declared: ${outputs.join(', ')})` : ''),
+                            severity: 'error',
+                            start: reference.fieldStart!,
+                            end: reference.fieldEnd!,
+                            code: 'template-unknown-output'
+                        });
+                    }
+                });
+            });
+        });
+
+        if (consumer.subgraph) {
+            errors.push(...checkTemplateExpressions(consumer.subgraph, text));
+        }
+    });
+
+    return errors;
+}
+
+function describeScope(graph: WorkflowGraph): string {
+    return graph.owner ? `Subgraph of node "${graph.owner.name}"` : 'Workflow';
+}
+
+// Fix that adds a stub node to the scope a reference was made in
+function createNodeFix(graph: WorkflowGraph, name: string): LintFix | undefined {
+    const nodes = [...graph.nodes.values()];
+    const first = nodes[0];
+    const last = nodes[nodes.length - 1];
+    const lastNode = last?.value?.range ? last.value : last?.key;
+    if (!first?.key.range || !lastNode?.range || first.key.range[0] >= lastNode.range[1]) {
+        return undefined;
+    }
+
+    return {
+        kind: 'createNode',
+        name,
+        at: {
+            after: lastNode.range[1],
+            keyOffset: first.key.range[0],
+            parentKeyOffset: graph.location.range?.[0]
+        }
+    };
+}
+
+/**
+ * Resolves `next` and branch targets lexically: a subgraph's nodes can only
+ * route to each other, so a target found in another scope is an illegal jump
+ * across a subgraph boundary rather than an unresolved name.
+ */
+function checkReferences(graph: WorkflowGraph): LintError[] {
+    const errors: LintError[] = [];
+
+    graph.nodes.forEach(node => {
+        node.edges.forEach(edge => {
+            if (graph.nodes.has(edge.target)) {
+                return;
+            }
+
+            const scopes = findDefiningScopes(graph, edge.target);
+            if (scopes.length === 0) {
+                errors.push(createLintError(
+                    edge.reference,
+                    `Unresolved node reference: ${edge.target}`,
+                    'error',
+                    'unresolved-reference',
+                    createNodeFix(graph, edge.target)
+                ));
+                return;
+            }
+
+            // Either an enclosing scope's node, or one inside another node's subgraph
+            const message = resolveNode(graph, edge.target)
+                ? `Illegal jump out of the subgraph of node "${graph.owner!.name}": "${edge.target}" is defined outside it`
+                : `Illegal jump into the subgraph of node "${scopes[0].owner!.name}": "${edge.target}" is only visible inside it`;
+            errors.push(createLintError(edge.reference, message, 'error', 'illegal-jump'));
+        });
+
+        if (node.subgraph) {
+            errors.push(...checkReferences(node.subgraph));
+        }
+    });
+
+    return errors;
+}
+
+function checkGraph(graph: WorkflowGraph): LintError[] {
+    const errors: LintError[] = [];
+
+    if (graph.nodes.size === 0) {
+        return errors;
+    }
+
+    // Loop bodies are expected to repeat, so cycles are only reported elsewhere
+    if (!isLoopBody(graph)) {
+        findCycles(graph).forEach(cycle => {
+            const path = [...cycle, cycle[0]].map(node => node.name).join(' -> ');
+            cycle.forEach(node => {
+                errors.push(createLintError(
+                    node.key,
+                    `Cycle detected: ${path}`,
+                    'error',
+                    'cycle'
+                ));
+            });
+        });
+    }
+
+    const entries = findEntryNodes(graph);
+    if (entries.length === 0) {
+        errors.push(createLintError(
+            graph.location,
+            `${describeScope(graph)} has no entry node: every node is the target of another node`,
+            'error',
+            'no-entry'
+        ));
+    } else {
+        if (entries.length > 1) {
+            const names = entries.map(node => node.name).join(', ');
+            entries.forEach(node => {
+                errors.push(createLintError(
+                    node.key,
+                    `${describeScope(graph)} has multiple entry nodes: ${names}`,
+                    'warning',
+                    'multiple-entries'
+                ));
+            });
+        }
+
+        findUnreachableNodes(graph, entries).forEach(node => {
+            errors.push(createLintError(
+                node.key,
+                `Node "${node.name}" is unreachable from any entry node`,
+                'warning',
+                'unreachable-node'
+            ));
+        });
+    }
+
+    findDeadEndNodes(graph).forEach(node => {
+        errors.push(createLintError(
+            node.key,
+            `Node "${node.name}" is a dead end: no path from it reaches a terminal node`,
+            'warning',
+            'dead-end'
+        ));
+    });
+
+    graph.nodes.forEach(node => {
+        if (node.subgraph) {
+            errors.push(...checkGraph(node.subgraph));
+        }
+    });
+
+    return errors;
+}
+
+function validateNodes(nodes: YAMLMap, context: LintContext): LintError[] {
+    const lintErrors: LintError[] = [];
+
+    // Indentation of the node keys, taken from one indented with spaces only
+    const siblingIndent = nodes.items
+        .map(pair => (pair.key as Node).range ? leadingWhitespace(context.text, (pair.key as Node).range![0]) : '\t')
+        .find(indent => !indent.includes('\t'));
+
+    for (const pair of nodes.items) {
+        const nodeKey = pair.key as Node;
+        const nodeValue = pair.value;
+
+        // Get the node name as string
+        const nodeName = keyName(pair);
+
+        // Check if nodeValue is a valid object with proper structure
+        if (isMap(nodeValue)) {
+            // Check required fields
+            lintErrors.push(...checkRequiredFields(nodeValue, nodeName, nodeKey, context));
+
+            // Check data types
+            lintErrors.push(...checkDataTypes(nodeValue, nodeName));
+
+            // Check for empty values
+            lintErrors.push(...checkEmptyValues(nodeValue, nodeName));
+
+            // Check indentation
+            const indentationError = checkIndentation(context.text, nodeKey, siblingIndent);
+            if (indentationError) {
+                lintErrors.push(indentationError);
+            }
+
+            // Always check for nested nodes if there's a subgraph structure
+            // This ensures we validate nested nodes even if the parent node has issues
+            const inputs = nodeValue.get('inputs');
+            const subgraph = isMap(inputs) ? inputs.get('subgraph') : undefined;
+            const nestedNodes = isMap(subgraph) ? subgraph.get('nodes') : undefined;
+
+            if (nestedNodes && nestedNodes instanceof YAMLMap) {
+                // Recursively validate nested nodes
+                lintErrors.push(...validateNodes(nestedNodes, context));
+            }
+        } else {
+            // Node value is not an object
+            lintErrors.push(createLintError(
+                nodeKey,
+                `Node "${nodeName}" has invalid structure`,
+                'error',
+                'invalid-node'
+            ));
+        }
+    }
+
+    return lintErrors;
+}
+
+function keyName(pair: Pair): string {
+    return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+}
+
+// Get the entry for a key so diagnostics can point at the key itself
+function findPair(map: YAMLMap, key: string): Pair | undefined {
+    return map.items.find(pair => keyName(pair) === key);
+}
+
+// Location of a field's key, or of the fallback node when the field is absent
+function fieldLocation(map: YAMLMap, field: string, fallback: Node): Node {
+    const pair = findPair(map, field);
+    return pair ? pair.key as Node : fallback;
+}
+
+// Where a quick fix can add an entry to a map; only block maps with entries qualify
+function mapInsertion(map: YAMLMap, parentKey?: Node): MapInsertion | undefined {
+    const first = map.items[0];
+    const last = map.items[map.items.length - 1];
+    if (map.flow || !first || !isScalar(first.key) || !first.key.range) {
+        return undefined;
+    }
+
+    const lastNode = (last.value as Node | null)?.range ? last.value as Node : last.key as Node;
+    if (!lastNode.range) {
+        return undefined;
+    }
+
+    return {
+        after: lastNode.range[1],
+        keyOffset: first.key.range[0],
+        parentKeyOffset: parentKey?.range?.[0]
+    };
+}
+
+// Fix that adds a missing field, when the map has no entry for it at all
+function insertFieldFix(map: YAMLMap, field: string, schema: FieldSchema, parentKey: Node, value?: string): LintFix | undefined {
+    const at = findPair(map, field) ? undefined : mapInsertion(map, parentKey);
+    return at ? { kind: 'insertField', field, schema, value, at } : undefined;
+}
+
+function isEmptyValue(value: unknown): boolean {
+    if (value === undefined || value === null) {
+        return true;
+    }
+    if (typeof value === 'string') {
+        return value.trim() === '';
+    }
+    if (isMap(value) || isSeq(value)) {
+        return value.items.length === 0;
+    }
+    return false;
+}
+
+// A string filled in at run time: a {{ }} template expression or a ${} substitution
+function isDynamicValue(value: unknown): boolean {
+    const raw = isScalar(value) ? value.value : value;
+    return typeof raw === 'string' && (raw.includes('{{') || raw.includes('${'));
+}
+
+function describeTypes(types: ValueType[]): string {
+    return types.map(type => (type === 'array' || type === 'object' ? 'an ' : 'a ') + type).join(' or ');
+}
+
+/**
+ * Checks a map against a schema: required fields, value types, and the
+ * fields of nested maps and list items.
+ * @param path Dotted path of the map within the node, e.g. "inputs"
+ */
+function checkSchemaFields(
+    map: YAMLMap,
+    schema: FieldSchema,
+    path: string,
+    mapKey: Node,
+    nodeName: string,
+    nodeType: string
+): LintError[] {
+    const errors: LintError[] = [];
+    const fieldPath = (field: string) => path ? `${path}.${field}` : field;
+
+    Object.entries(schema.fields || {}).forEach(([field, fieldSchema]) => {
+        const value = map.get(field, true);
+
+        // Check if the field exists and has a non-empty value
+        if (isEmptyValue(map.get(field))) {
+            if (fieldSchema.required) {
+                // A missing name defaults to the node's key
+                const value = path === '' && field === 'name' ? nodeName : undefined;
+                errors.push(createLintError(
+                    fieldLocation(map, field, mapKey),
+                    `Node "${nodeName}" of type "${nodeType}" is missing required field: ${fieldPath(field)}`,
+                    'error',
+                    'missing-field',
+                    insertFieldFix(map, field, fieldSchema, mapKey, value)
+                ));
+            }
+            return;
+        }
+
+        errors.push(...checkSchemaValue(value, fieldSchema, fieldPath(field), fieldLocation(map, field, mapKey), nodeName, nodeType));
+    });
+
+    // Fields the schema does not list, most likely misspelled
+    if (schema.additionalFields === false) {
+        const known = Object.keys(schema.fields || {});
+        map.items.forEach(pair => {
+            const field = keyName(pair);
+            if (!known.includes(field)) {
+                const suggestion = closestMatch(field, known);
+                errors.push(createLintError(
+                    pair.key as Node,
+                    `Node "${nodeName}" of type "${nodeType}" has unknown field: ${fieldPath(field)}` +
+                    (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+                    'error',
+                    'unknown-field'
+                ));
+            }
+        });
+    }
+
+    // At least one field of each group, e.g. call_kwargs or call_args
+    (schema.requireOneOf || []).forEach(group => {
+        if (group.length > 0 && group.every(field => isEmptyValue(map.get(field)))) {
+            const location = group.reduceRight((fallback, field) => fieldLocation(map, field, fallback), mapKey);
+            errors.push(createLintError(
+                location,
+                `Node "${nodeName}" of type "${nodeType}" is missing required field: ` +
+                group.map(fieldPath).join(' or '),
+                'error',
+                'missing-field',
+                insertFieldFix(map, group[0], schema.fields?.[group[0]] || {}, mapKey)
+            ));
+        }
+    });
+
+    return errors;
+}
+
+function checkSchemaValue(
+    value: unknown,
+    schema: FieldSchema,
+    path: string,
+    key: Node,
+    nodeName: string,
+    nodeType: string
+): LintError[] {
+    // Expressions are only resolved when the workflow runs
+    const actual = isDynamicValue(value) ? undefined : valueTypeOf(value);
+    if (schema.type && actual && !schema.type.includes(actual)) {
+        return [createLintError(
+            value as Node,
+            `Node "${nodeName}" of type "${nodeType}": '${path}' should be ${describeTypes(schema.type)}, found ${actual}`,
+            'error',
+            'type-mismatch'
+        )];
+    }
+
+    if (isMap(value) && (schema.fields || schema.requireOneOf)) {
+        return checkSchemaFields(value, schema, path, key, nodeName, nodeType);
+    }
+
+    if (isSeq(value) && schema.items) {
+        const itemSchema = schema.items;
+        return value.items.flatMap((item, index) => isEmptyItem(item)
+            ? []
+            : checkSchemaValue(item, itemSchema, `${path}[${index}]`, key, nodeName, nodeType));
+    }
+
+    return [];
+}
+
+function checkRequiredFields(node: YAMLMap, nodeName: string, nodeKey: Node, context: LintContext): LintError[] {
+    const errors: LintError[] = [];
+
+    const nodeType = node.get('type');
+
+    // If no type is specified, skip validation
+    if (!nodeType) {
+        return errors;
+    }
+
+    const nodeTypeStr = nodeType.toString().toLowerCase();
+    const schema = context.nodeTypes[nodeTypeStr];
+
+    // If node type is not recognized, only check for basic fields
+    if (!schema) {
+        errors.push(createLintError(
+            node.get('type', true) as Node,
+            `Node "${nodeName}" has unknown type: ${nodeType}`,
+            'warning',
+            'unknown-type'
+        ));
+        return errors;
+    }
+
+    errors.push(...checkSchemaFields(node, schema, '', nodeKey, nodeName, String(nodeType)));
+
+    // Additional validation for agent types
+    if (nodeTypeStr === 'agent') {
+        const inputs = node.get('inputs');
+        if (isMap(inputs)) {
+            errors.push(...checkAgentInputs(node, inputs, nodeName, nodeKey, String(nodeType), context.agents));
+
+            const agentPath = inputs.get('agent_path');
+            if (typeof agentPath === 'string' && context.agents[agentPath]?.llm) {
+                errors.push(...checkLlmSettings(inputs, nodeName, context.llmProviders));
+            }
+
+            const initKwargs = inputs.get('init_kwargs', true);
+            if (agentPath === CODE_AGENT_PATH && isMap(initKwargs)) {
+                const code = initKwargs.get('code', true);
+                if (isScalar(code) && typeof code.value === 'string') {
+                    errors.push(...checkCodeBlock(code, fieldLocation(initKwargs, 'code', nodeKey), nodeName, context.text));
+                }
+            }
+        }
+    }
+
+    // Additional validation for ifelse types
+    if (nodeTypeStr === 'ifelse') {
+        const conditions = node.get('conditions', true);
+        if (isSeq(conditions) && conditions.items.length > 0) {
+            errors.push(...checkConditions(node, conditions, nodeName, nodeKey, String(nodeType), context.text));
+        }
+    }
+
+    return errors;
+}
+
+// The branch keys of an ifelse condition
+const BRANCH_KEYWORDS = ['if', 'elif', 'else'];
+
+/**
+ * Checks the branches of an ifelse node: an `if`, any number of `elif`s and
+ * an optional `else`, in that order, each with a valid condition and targets.
+ */
+function checkConditions(
+    node: YAMLMap,
+    conditions: YAMLSeq,
+    nodeName: string,
+    nodeKey: Node,
+    nodeType: string,
+    text: string
+): LintError[] {
+    const errors: LintError[] = [];
+    const conditionsKey = fieldLocation(node, 'conditions', nodeKey);
+
+    const hasIfCondition = conditions.items.some(condition => isMap(condition) && condition.has('if'));
+    if (!hasIfCondition) {
+        errors.push(createLintError(
+            conditionsKey,
+            `Node "${nodeName}" of type "${nodeType}" is missing required field: conditions.if`,
+            'error',
+            'missing-field'
+        ));
+    }
+
+    let seenElse = false;
+    conditions.items.forEach((condition, index) => {
+        if (!isMap(condition)) {
+            return;
+        }
+
+        const branches = condition.items.filter(pair => BRANCH_KEYWORDS.includes(keyName(pair)));
+        if (branches.length !== 1) {
+            errors.push(createLintError(
+                branches.length > 1 ? branches[1].key as Node : condition,
+                branches.length > 1
+                    ? `Node "${nodeName}": condition ${index + 1} combines ${branches.map(keyName).join(' and ')}; use one per condition`
+                    : `Node "${nodeName}": condition ${index + 1} has no 'if', 'elif' or 'else'`,
+                'error',
+                'condition-order'
+            ));
+            return;
+        }
+
+        const branch = branches[0];
+        const keyword = keyName(branch);
+        const branchKey = branch.key as Node;
+
+        // A missing `if` is already reported above
+        if (seenElse) {
+            errors.push(createLintError(
+                branchKey,
+                `Node "${nodeName}": '${keyword}' after 'else'; 'else' must be the last condition`,
+                'error',
+                'condition-order'
+            ));
+        } else if (index === 0 && keyword !== 'if' && hasIfCondition) {
+            errors.push(createLintError(
+                branchKey,
+                `Node "${nodeName}": the first condition must be 'if', found '${keyword}'`,
+                'error',
+                'condition-order'
+            ));
+        } else if (index > 0 && keyword === 'if') {
+            errors.push(createLintError(
+                branchKey,
+                `Node "${nodeName}": only the first condition can be 'if'; use 'elif'`,
+                'error',
+                'condition-order'
+            ));
+        }
+        seenElse = seenElse || keyword === 'else';
+
+        // `else` holds its targets; `if` and `elif` have them under `then`
+        if (keyword === 'else') {
+            if (isEmptyValue(condition.get('else'))) {
+                errors.push(createLintError(
+                    branchKey,
+                    `Node "${nodeName}": 'else' of condition ${index + 1} has no targets`,
+                    'error',
+                    'empty-field'
+                ));
+            }
+            return;
+        }
+
+        if (isEmptyValue(condition.get('then'))) {
+            errors.push(createLintError(
+                fieldLocation(condition, 'then', branchKey),
+                `Node "${nodeName}" of type "${nodeType}" is missing required field: conditions[${index}].then`,
+                'error',
+                'missing-field'
+            ));
+        }
+
+        const expression = branch.value;
+        if (isEmptyValue(expression) || (isScalar(expression) && isEmptyValue(expression.value))) {
+            errors.push(createLintError(
+                (isScalar(expression) && expression.range ? expression : branchKey) as Node,
+                `Node "${nodeName}": '${keyword}' condition is empty`,
+                'error',
+                'empty-condition'
+            ));
+        } else if (isScalar(expression) && typeof expression.value === 'string') {
+            const syntaxError = checkConditionScalar(expression, text);
+            if (syntaxError) {
+                errors.push({
+                    ...syntaxError,
+                    message: `Node "${nodeName}": invalid '${keyword}' condition: ${syntaxError.message}`
+                });
+            }
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Syntax-checks a condition string. Positions point into the source when it
+ * maps one to one onto the value, otherwise the whole scalar is underlined.
+ */
+function checkConditionScalar(scalar: Scalar, text: string): LintError | undefined {
+    const value = String(scalar.value);
+    const syntaxError = checkConditionSyntax(value);
+    if (!syntaxError || !scalar.range) {
+        return undefined;
+    }
+
+    let [start, end] = [scalar.range[0], scalar.range[1]];
+    const quoted = scalar.type === Scalar.QUOTE_DOUBLE || scalar.type === Scalar.QUOTE_SINGLE;
+    const contentStart = quoted ? start + 1 : start;
+    if (text.slice(contentStart, contentStart + value.length) === value) {
+        start = contentStart + syntaxError.start;
+        end = contentStart + syntaxError.end;
+    }
+
+    return { message: syntaxError.message, severity: 'error', start, end, code: 'condition-syntax' };
+}
+
+/**
+ * Checks that each key under an aggregator's `outputs` names a node that runs
+ * before it, and that its `param_name` is one of that node's outputs.
+ */
+function checkAggregators(graph: WorkflowGraph): LintError[] {
+    const errors: LintError[] = [];
+
+    graph.nodes.forEach(node => {
+        if (node.subgraph) {
+            errors.push(...checkAggregators(node.subgraph));
+        }
+
+        const outputs = node.value?.get('outputs', true);
+        if (node.type !== 'aggregator' || !isMap(outputs)) {
+            return;
+        }
+
+        outputs.items.forEach(pair => {
+            const source = keyName(pair);
+            const sourceKey = pair.key as Node;
+
+            const resolved = resolveNode(graph, source);
+            if (!resolved) {
+                const suggestion = closestMatch(source, [...graph.nodes.keys()]);
+                errors.push(createLintError(
+                    sourceKey,
+                    `Aggregator "${node.name}" collects from unknown node "${source}"` +
+                    (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+                    'error',
+                    'aggregator-unknown-node'
+                ));
+                return;
+            }
+
+            const dependent = enclosingNodeIn(resolved.graph, graph, node);
+            if (!dependent || dependent === resolved.node ||
+                !findUpstreamNodes(resolved.graph, dependent).has(resolved.node)) {
+                errors.push(createLintError(
+                    sourceKey,
+                    `Aggregator "${node.name}" collects from node "${source}", which does not run before it`,
+                    'error',
+                    'aggregator-not-upstream'
+                ));
+            }
+
+            const paramName = isMap(pair.value) ? pair.value.get('param_name', true) : undefined;
+            if (!isScalar(paramName) || isEmptyValue(paramName.value)) {
+                errors.push(createLintError(
+                    isMap(pair.value) ? fieldLocation(pair.value, 'param_name', sourceKey) : sourceKey,
+                    `Node "${node.name}" of type "aggregator" is missing required field: outputs.${source}.param_name`,
+                    'error',
+                    'missing-field'
+                ));
+                return;
+            }
+
+            const declared = declaredOutputs(resolved.node);
+            const param = String(paramName.value);
+            if (declared && !isDynamicValue(paramName) && !declared.includes(param)) {
+                errors.push(createLintError(
+                    paramName,
+                    `Node "${source}" does not declare output "${param}"` +
+                    (declared.length > 0 ? ` (declared: ${declared.join(', ')})` : ''),
+                    'error',
+                    'aggregator-unknown-output'
+                ));
+            }
+        });
+    });
+
+    return errors;
+}
+
+/**
+ * Checks an agent node against the catalog entry for its `agent_path`:
+ * its kwargs and the outputs it lists.
+ */
+function checkAgentInputs(
+    node: YAMLMap,
+    inputs: YAMLMap,
+    nodeName: string,
+    nodeKey: Node,
+    nodeType: string,
+    agents: AgentCatalog
+): LintError[] {
+    const errors: LintError[] = [];
+    const inputsKey = fieldLocation(node, 'inputs', nodeKey);
+
+    const agentPath = inputs.get('agent_path');
+    if (typeof agentPath !== 'string' || agentPath.trim() === '') {
+        return errors;
+    }
+
+    const agent = agents[agentPath];
+    if (!agent) {
+        const suggestion = closestMatch(agentPath, Object.keys(agents));
+        errors.push(createLintError(
+            inputs.get('agent_path', true) as Node,
+            `Node "${nodeName}": unknown agent path "${agentPath}"` +
+            (suggestion ? ` (did you mean "${suggestion}"?)` : ` (add it to ${AGENT_CATALOG_FILE} to check its kwargs)`),
+            'warning',
+            'unknown-agent'
+        ));
+    }
+
+    // Without a catalog entry, init_kwargs is assumed to be required
+    if (isEmptyValue(inputs.get('init_kwargs'))) {
+        if (!agent || requiresInitKwargs(agent)) {
+            errors.push(createLintError(
+                fieldLocation(inputs, 'init_kwargs', inputsKey),
+                `Node "${nodeName}" of type "${nodeType}" is missing required field: inputs.init_kwargs`,
+                'error',
+                'missing-field',
+                insertFieldFix(inputs, 'init_kwargs', { type: ['object'], ...agent?.initKwargs }, inputsKey)
+            ));
+        }
+    }
+
+    if (!agent) {
+        return errors;
+    }
+
+    const initKwargs = inputs.get('init_kwargs', true);
+    if (isMap(initKwargs)) {
+        errors.push(...checkSchemaFields(initKwargs, agent.initKwargs, 'inputs.init_kwargs',
+            fieldLocation(inputs, 'init_kwargs', inputsKey), nodeName, nodeType));
+    }
+
+    // call_args is an alternative spelling of call_kwargs
+    ['call_kwargs', 'call_args'].forEach(field => {
+        const callKwargs = inputs.get(field, true);
+        if (isMap(callKwargs)) {
+            errors.push(...checkSchemaFields(callKwargs, agent.callKwargs, `inputs.${field}`,
+                fieldLocation(inputs, field, inputsKey), nodeName, nodeType));
+        }
+    });
+
+    // Outputs the agent does not return
+    const outputs = node.get('outputs', true);
+    if (agent.outputs && isSeq(outputs)) {
+        const produced = agent.outputs;
+        outputs.items.forEach(item => {
+            if (isScalar(item) && typeof item.value === 'string' && item.value.trim() !== '' && !produced.includes(item.value)) {
+                errors.push(createLintError(
+                    item,
+                    `Node "${nodeName}": agent ${agentPath.split('.').pop()} does not return output "${item.value}" ` +
+                    `(returns: ${produced.join(', ')})`,
+                    'warning',
+                    'unknown-agent-output'
+                ));
+            }
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Where each line of a block literal's value starts in the document, or
+ * undefined for other scalars, whose lines do not map directly onto the source.
+ */
+function blockLineOffsets(scalar: Scalar, text: string): number[] | undefined {
+    if (scalar.type !== Scalar.BLOCK_LITERAL || !scalar.range) {
+        return undefined;
+    }
+
+    const headerEnd = text.indexOf('\n', scalar.range[0]);
+    if (headerEnd === -1) {
+        return undefined;
+    }
+
+    // The indentation stripped from each line: explicit in the header, or that of the first line
+    const header = text.slice(scalar.range[0], headerEnd);
+    const indicator = header.match(/^\|[+-]?(\d)/);
+    let lineStart = headerEnd + 1;
+    const firstLine = text.slice(lineStart, scalar.range[1]).match(/^(?:[ ]*\r?\n)*([ ]*)/)!;
+    const blockIndent = indicator ? Number(indicator[1]) : firstLine[1].length;
+
+    const offsets: number[] = [];
+    String(scalar.value).split('\n').forEach(() => {
+        offsets.push(lineStart + blockIndent);
+        const lineEnd = text.indexOf('\n', lineStart);
+        lineStart = lineEnd === -1 ? text.length : lineEnd + 1;
+    });
+    return offsets;
+}
+
+/**
+ * Checks the Python of a Code Agent. Problems on a line of a `|` block are
+ * placed on that line of the YAML file; otherwise the whole value is underlined.
+ */
+function checkCodeBlock(scalar: Scalar, codeKey: Node, nodeName: string, text: string): LintError[] {
+    const code = String(scalar.value);
+
+    // Code pulled in from a file is only known at run time
+    if (code.trim() === '' || /^\s*\$\{[^}]*\}\s*$/.test(code)) {
+        return [];
+    }
+
+    const offsets = blockLineOffsets(scalar, text);
+    return checkPythonCode(code).map(problem => {
+        const message = `Node "${nodeName}": ${problem.message}`;
+        if (problem.line === undefined) {
+            return createLintError(codeKey, message, 'error', problem.rule);
+        }
+        if (!offsets || offsets[problem.line] + problem.end > scalar.range![1]) {
+            return createLintError(scalar, message, 'warning', problem.rule);
+        }
+        return {
+            message,
+            severity: 'warning',
+            start: offsets[problem.line] + problem.start,
+            end: offsets[problem.line] + problem.end,
+            code: problem.rule
+        };
+    });
+}
+
+// A literal scalar the linter can check, as opposed to one filled in at run time
+function staticScalar(value: unknown): Scalar | undefined {
+    return isScalar(value) && value.range && !isDynamicValue(value) ? value : undefined;
+}
+
+/**
+ * Checks the model settings of an LLM agent: the provider and model against
+ * the provider table, sampling parameter ranges, `convert_to_dict` and the
+ * roles of its messages.
+ */
+function checkLlmSettings(inputs: YAMLMap, nodeName: string, providers: LlmProviders): LintError[] {
+    const errors: LintError[] = [];
+
+    const initKwargs = inputs.get('init_kwargs', true);
+    if (isMap(initKwargs)) {
+        let provider: LlmProvider | undefined;
+        const providerName = staticScalar(initKwargs.get('model_provider', true));
+        if (providerName && typeof providerName.value === 'string') {
+            provider = providers[providerName.value];
+            if (!provider) {
+                const suggestion = closestMatch(providerName.value, Object.keys(providers));
+                errors.push(createLintError(
+                    providerName,
+                    `Node "${nodeName}": unknown model provider "${providerName.value}"` +
+                    (suggestion ? ` (did you mean "${suggestion}"?)` : ` (add it to ${LLM_PROVIDERS_FILE})`),
+                    'warning',
+                    'unknown-llm-provider'
+                ));
+            }
+        }
+
+        const hyperparameters = initKwargs.get('hyperparameters', true);
+        if (isMap(hyperparameters)) {
+            const model = staticScalar(hyperparameters.get('model', true));
+            if (provider?.models && model && typeof model.value === 'string' && !provider.models.includes(model.value)) {
+                const suggestion = closestMatch(model.value, provider.models);
+                errors.push(createLintError(
+                    model,
+                    `Node "${nodeName}": model "${model.value}" is not offered by provider "${providerName!.value}"` +
+                    (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+                    'warning',
+                    'unknown-llm-model'
+                ));
+            }
+
+            const ranges: [string, number][] = [['temperature', provider?.maxTemperature ?? 2], ['top_p', 1]];
+            ranges.forEach(([parameter, max]) => {
+                const value = staticScalar(hyperparameters.get(parameter, true));
+                if (value && typeof value.value === 'number' && (value.value < 0 || value.value > max)) {
+                    errors.push(createLintError(
+                        value,
+                        `Node "${nodeName}": '${parameter}' must be between 0 and ${max}, found ${value.value}`,
+                        'error',
+                        'llm-parameter-range'
+                    ));
+                }
+            });
+
+            const convertToDict = staticScalar(hyperparameters.get('convert_to_dict', true));
+            if (convertToDict?.value === true && isEmptyValue(hyperparameters.get('response_format'))) {
+                errors.push(createLintError(
+                    convertToDict,
+                    `Node "${nodeName}": 'convert_to_dict' needs a 'response_format' to convert the response with`,
+                    'error',
+                    'missing-response-format'
+                ));
+            }
+        }
+    }
+
+    // Missing content is reported by the agent catalog's message schema
+    ['call_kwargs', 'call_args'].forEach(field => {
+        const callKwargs = inputs.get(field, true);
+        const messages = isMap(callKwargs) ? callKwargs.get('messages', true) : undefined;
+        if (!isSeq(messages)) {
+            return;
+        }
+
+        messages.items.forEach(message => {
+            const role = isMap(message) ? staticScalar(message.get('role', true)) : undefined;
+            if (role && typeof role.value === 'string' && !MESSAGE_ROLES.includes(role.value)) {
+                const suggestion = closestMatch(role.value, MESSAGE_ROLES);
+                errors.push(createLintError(
+                    role,
+                    `Node "${nodeName}": invalid message role "${role.value}", expected one of ${MESSAGE_ROLES.join(', ')}` +
+                    (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+                    'error',
+                    'invalid-message-role'
+                ));
+            }
+        });
+    });
+
+    return errors;
+}
+
+// Whether an item of `outputs`/`next` is blank, e.g. a bare `-` or `""`
+function isEmptyItem(item: unknown): boolean {
+    const value = isPair(item) ? item.value : item;
+    if (value === null || value === undefined) {
+        return true;
+    }
+    if (isScalar(value)) {
+        return value.value === null || value.value === undefined ||
+            (typeof value.value === 'string' && (value.value.trim() === '' || value.value === '-'));
+    }
+    return false;
+}
+
+/**
+ * Checks that a list-valued field (`outputs` or `next`) is present, non-empty and
+ * has no blank items. Each blank item gets its own diagnostic.
+ */
+function checkListField(node: YAMLMap, nodeName: string, field: string, allowString: boolean): LintError[] {
+    const errors: LintError[] = [];
+
+    const pair = findPair(node, field);
+    if (!pair) {
+        return errors;
+    }
+
+    const key = pair.key as Node;
+    const value = pair.value;
+
+    // Check if the value is null (happens when YAML has "field:" with no value)
+    if (value === null || (isScalar(value) && value.value === null)) {
+        errors.push(createLintError(
+            key,
+            `Node "${nodeName}": '${field}' field is empty`,
+            'error',
+            'empty-field'
+        ));
+        return errors;
+    }
+
+    if (isScalar(value)) {
+        if (!allowString || typeof value.value !== 'string') {
+            errors.push(createLintError(
+                value,
+                allowString
+                    ? `Node "${nodeName}": '${field}' must be an array or string`
+                    : `Node "${nodeName}": '${field}' must be an array or object`,
+                'error',
+                'invalid-list'
+            ));
+        } else if (value.value.trim() === '' || value.value === '-') {
+            errors.push(createLintError(
+                key,
+                `Node "${nodeName}": '${field}' field is empty`,
+                'error',
+                'empty-field'
+            ));
+        }
+        return errors;
+    }
+
+    if (isSeq(value) || isMap(value)) {
+        if (value.items.length === 0) {
+            errors.push(createLintError(
+                key,
+                `Node "${nodeName}": '${field}' field is empty`,
+                'error',
+                'empty-field'
+            ));
+            return errors;
+        }
+
+        // Underline each blank item rather than the whole field
+        for (const item of value.items) {
+            if (isEmptyItem(item)) {
+                const location = isPair(item) ? item.key : item;
+
+                // Blank items of a block list can be removed line by line
+                const range = isScalar(item) && isSeq(value) && !value.flow ? item.range : undefined;
+                const fix: LintFix | undefined = range
+                    ? { kind: 'removeItem', field, start: range[0], end: range[1] }
+                    : undefined;
+
+                errors.push(createLintError(
+                    (location as Node | null) ?? key,
+                    `Node "${nodeName}": '${field}' field contains empty items`,
+                    'error',
+                    'empty-item',
+                    fix
+                ));
+            }
+        }
+    }
+
+    return errors;
+}
+
+function checkDataTypes(node: YAMLMap, nodeName: string): LintError[] {
+    return [
+        ...checkListField(node, nodeName, 'outputs', false),
+        ...checkListField(node, nodeName, 'next', true)
+    ];
+}
+
+function checkEmptyValues(node: YAMLMap, nodeName: string): LintError[] {
+    const errors: LintError[] = [];
+
+    for (const pair of node.items) {
+        const value = pair.value;
+
+        if (value === null || value === undefined ||
+            (isScalar(value) && (value.value === null || value.value === ''))) {
+            errors.push(createLintError(
+                pair.key as Node,
+                `Node "${nodeName}": '${keyName(pair)}' has empty value`,
+                'warning',
+                'empty-value'
+            ));
+        }
+    }
+
+    return errors;
+}
+
+function lineStartOf(text: string, offset: number): number {
+    return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function leadingWhitespace(text: string, offset: number): string {
+    return text.slice(lineStartOf(text, offset)).match(/^[ \t]*/)![0];
+}
+
+function checkIndentation(text: string, nodeKey: Node, siblingIndent?: string): LintError | null {
+    if (!nodeKey.range) {
+        return null;
+    }
+
+    const lineStart = lineStartOf(text, nodeKey.range[0]);
+    const indentation = leadingWhitespace(text, nodeKey.range[0]);
+    if (indentation.includes('\t') && indentation.includes(' ')) {
+        // Underline just the offending indentation
+        const end = lineStart + indentation.length;
+        return {
+            message: "Mixed tab and space indentation",
+            severity: 'warning',
+            start: lineStart,
+            end,
+            code: 'mixed-indentation',
+            fix: {
+                kind: 'replaceIndentation',
+                start: lineStart,
+                end,
+                indentation: siblingIndent ?? indentation.replace(/\t/g, '  ')
+            }
+        };
+    }
+
+    return null;
+}
+
+// Creates a lint error spanning a parsed node's source
+function createLintError(
+    node: Node,
+    message: string,
+    severity: LintSeverity,
+    code: LintRule,
+    fix?: LintFix
+): LintError {
+    const [start, end] = node.range ? [node.range[0], node.range[1]] : [0, 1];
+
+    return {
+        message,
+        severity,
+        start,
+        end,
+        code,
+        fix
+    };
+}
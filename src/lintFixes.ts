@@ -0,0 +1,172 @@
+import { TextChange } from './lineDiff';
+import { FieldSchema } from './nodeTypeSchema';
+
+/**
+ * Where a new entry goes in a block map. Offsets are positions in the document text.
+ */
+export interface MapInsertion {
+    /** End of the map's last entry */
+    after: number;
+    /** Start of one of the map's keys, giving the entries' indentation */
+    keyOffset: number;
+    /** Start of the key owning the map, giving the indentation step */
+    parentKeyOffset?: number;
+}
+
+/**
+ * A fix the linter knows how to make for one of its findings. Fixes are
+ * described as data so they can be turned into edits against the current text.
+ */
+export type LintFix =
+    | { kind: 'insertField'; field: string; schema: FieldSchema; value?: string; at: MapInsertion }
+    | { kind: 'removeItem'; field: string; start: number; end: number }
+    | { kind: 'createNode'; name: string; at: MapInsertion }
+    | { kind: 'replaceIndentation'; start: number; end: number; indentation: string };
+
+// Indentation step used when a map has no parent key to measure against
+const DEFAULT_INDENT_UNIT = 2;
+
+function columnAt(text: string, offset: number): number {
+    return offset - (text.lastIndexOf('\n', offset - 1) + 1);
+}
+
+function eolOf(text: string): string {
+    return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+// End of the last line of content at or before the offset
+function insertionPoint(text: string, after: number): number {
+    let position = after;
+    while (position > 0 && (text[position - 1] === '\n' || text[position - 1] === '\r')) {
+        position--;
+    }
+
+    const lineEnd = text.indexOf('\n', position);
+    if (lineEnd === -1) {
+        return text.length;
+    }
+    return text[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+}
+
+function indentation(text: string, at: MapInsertion): { indent: string; unit: string } {
+    const column = columnAt(text, at.keyOffset);
+    const step = at.parentKeyOffset !== undefined ? column - columnAt(text, at.parentKeyOffset) : 0;
+    return {
+        indent: ' '.repeat(column),
+        unit: ' '.repeat(step > 0 ? step : DEFAULT_INDENT_UNIT)
+    };
+}
+
+/**
+ * Renders a placeholder value for a field, following `field:`. Objects get
+ * their required fields, and the first field of each `require_one_of` group.
+ */
+export function renderStubValue(schema: FieldSchema, indent: string, unit: string, eol: string = '\n'): string {
+    switch (schema.type?.[0]) {
+        case 'object': {
+            const fields = Object.keys(schema.fields || {}).filter(field => schema.fields![field].required);
+            (schema.requireOneOf || []).forEach(group => {
+                if (group.length > 0 && !group.some(field => fields.includes(field))) {
+                    fields.push(group[0]);
+                }
+            });
+
+            if (fields.length === 0) {
+                return ' {}';
+            }
+            return fields
+                .map(field => `${eol}${indent}${unit}${field}:` +
+                    renderStubValue(schema.fields?.[field] || {}, indent + unit, unit, eol))
+                .join('');
+        }
+        case 'array':
+            return ' []';
+        case 'number':
+            return ' 0';
+        case 'boolean':
+            return ' false';
+        default:
+            return ' ""';
+    }
+}
+
+/**
+ * The text changes that apply a fix. Node stubs need a template and are
+ * rendered by `nodeStubChanges` instead.
+ */
+export function fixChanges(fix: LintFix, text: string): TextChange[] {
+    const eol = eolOf(text);
+
+    switch (fix.kind) {
+        case 'insertField': {
+            const { indent, unit } = indentation(text, fix.at);
+            const value = fix.value !== undefined ? ` ${fix.value}` : renderStubValue(fix.schema, indent, unit, eol);
+            const position = insertionPoint(text, fix.at.after);
+            return [{ start: position, end: position, text: `${eol}${indent}${fix.field}:${value}` }];
+        }
+        case 'removeItem': {
+            // Take the item's whole line, including its line break
+            const lineStart = text.lastIndexOf('\n', fix.start - 1) + 1;
+            const lineEnd = text.indexOf('\n', fix.end);
+            return [{ start: lineStart, end: lineEnd === -1 ? text.length : lineEnd + 1, text: '' }];
+        }
+        case 'replaceIndentation':
+            return [{ start: fix.start, end: fix.end, text: fix.indentation }];
+        case 'createNode':
+            return [];
+    }
+}
+
+/**
+ * Combines fixes into one set of changes, as "fix all" makes them. Creating a
+ * node is a structural change, so it is only ever offered as its own quick
+ * fix and left out here. Changes that overlap an earlier one are left for a
+ * second run.
+ */
+export function fixAllChanges(fixes: LintFix[], text: string): TextChange[] {
+    // Stable sort keeps insertions at the same position in the fixes' order
+    const changes = fixes.flatMap(fix => fixChanges(fix, text)).sort((a, b) => a.start - b.start);
+
+    const applied: TextChange[] = [];
+    let appliedEnd = -1;
+    changes.forEach(change => {
+        if (change.start >= appliedEnd) {
+            applied.push(change);
+            appliedEnd = change.end;
+        }
+    });
+    return applied;
+}
+
+/**
+ * Adds a node named after an unresolved reference, built from an agent
+ * template. The template's own `next` is dropped so the stub does not
+ * introduce references of its own.
+ */
+export function nodeStubChanges(fix: Extract<LintFix, { kind: 'createNode' }>, text: string, template: string): TextChange[] {
+    const eol = eolOf(text);
+    const { indent, unit } = indentation(text, fix.at);
+
+    const lines = template.split('\n');
+    const stub: string[] = [];
+    let skipBelow = -1;
+    lines.forEach((line, index) => {
+        const depth = line.length - line.trimStart().length;
+        if (skipBelow >= 0 && (line.trim() === '' || depth > skipBelow)) {
+            return;
+        }
+        skipBelow = -1;
+
+        if (index > 0 && depth === 2 && line.trim() === 'next:') {
+            skipBelow = depth;
+            return;
+        }
+
+        // Templates are indented by two spaces per level
+        const content = index === 0 ? `${fix.name}:` : line.trimStart();
+        stub.push(content === '' ? '' : indent + unit.repeat(Math.floor(depth / 2)) + content);
+    });
+
+    const position = insertionPoint(text, fix.at.after);
+    return [{ start: position, end: position, text: eol + stub.join(eol) }];
+}
@@ -0,0 +1,133 @@
+import { LintError, LintSeverity } from './lintEngine';
+import { LINT_RULES } from './lintRules';
+
+/**
+ * A finding with one-based line and column numbers, ready to print.
+ */
+export interface ReportedProblem {
+    file: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    severity: LintSeverity;
+    rule: string;
+    message: string;
+}
+
+export type ReportFormat = 'human' | 'json' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['human', 'json', 'sarif'];
+
+function positionOf(text: string, offset: number): { line: number; column: number } {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < offset && i < text.length; i++) {
+        if (text[i] === '\n') {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { line, column: offset - lineStart + 1 };
+}
+
+export function toReportedProblems(file: string, text: string, lintErrors: LintError[]): ReportedProblem[] {
+    return lintErrors.map(error => {
+        const start = positionOf(text, error.start);
+        const end = positionOf(text, error.end);
+        return {
+            file,
+            line: start.line,
+            column: start.column,
+            endLine: end.line,
+            endColumn: end.column,
+            severity: error.severity,
+            rule: error.code,
+            message: error.message
+        };
+    });
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Grouped by file, one problem per line, like most linters print
+function formatHuman(problems: ReportedProblem[]): string {
+    if (problems.length === 0) {
+        return 'No problems found.\n';
+    }
+
+    const lines: string[] = [];
+    const files = [...new Set(problems.map(problem => problem.file))];
+    files.forEach(file => {
+        lines.push(file);
+        problems
+            .filter(problem => problem.file === file)
+            .sort((a, b) => a.line - b.line || a.column - b.column)
+            .forEach(problem => {
+                const position = `${problem.line}:${problem.column}`.padEnd(8);
+                lines.push(`  ${position}${problem.severity.padEnd(13)}${problem.message}  ${problem.rule}`);
+            });
+        lines.push('');
+    });
+
+    const count = (severity: LintSeverity) => problems.filter(problem => problem.severity === severity).length;
+    lines.push(`${plural(problems.length, 'problem')} (${plural(count('error'), 'error')}, ${plural(count('warning'), 'warning')})`);
+    return lines.join('\n') + '\n';
+}
+
+const SARIF_LEVELS: { [severity in LintSeverity]: string } = {
+    error: 'error',
+    warning: 'warning',
+    information: 'note',
+    hint: 'note'
+};
+
+// SARIF 2.1.0, as read by GitHub code scanning and most CI dashboards
+function formatSarif(problems: ReportedProblem[]): string {
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'genor-lint',
+                    informationUri: 'https://github.com/Ahmed-Ashraf-EGAC/genor-yaml-toolkit',
+                    rules: Object.entries(LINT_RULES).map(([id, description]) => ({
+                        id,
+                        shortDescription: { text: description }
+                    }))
+                }
+            },
+            results: problems.map(problem => ({
+                ruleId: problem.rule,
+                level: SARIF_LEVELS[problem.severity],
+                message: { text: problem.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: problem.file.split('\\').join('/') },
+                        region: {
+                            startLine: problem.line,
+                            startColumn: problem.column,
+                            endLine: problem.endLine,
+                            endColumn: problem.endColumn
+                        }
+                    }
+                }]
+            }))
+        }]
+    };
+    return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+export function formatReport(problems: ReportedProblem[], format: ReportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(problems, null, 2) + '\n';
+        case 'sarif':
+            return formatSarif(problems);
+        default:
+            return formatHuman(problems);
+    }
+}
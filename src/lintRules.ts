@@ -0,0 +1,114 @@
+/**
+ * Stable IDs of the linter's rules, used as diagnostic codes, in the
+ * `genorYamlToolkit.lintRules` setting and in suppression comments.
+ */
+export const LINT_RULES = {
+    'yaml-syntax': 'The file is not valid YAML',
+    'yaml-warning': 'The YAML parser warns about the file, e.g. an unknown tag or directive',
+    'duplicate-key': 'A key set more than once in the same map',
+    'duplicate-node': 'A node name defined more than once in the same workflow or subgraph',
+    'shadowed-node': 'A subgraph node with the same name as a node outside the subgraph',
+    'invalid-node': 'A node is not a map of fields',
+    'unknown-type': 'A node has a type that is neither built in nor in .genor/node-types.yaml',
+    'missing-field': 'A required field is missing or empty',
+    'unknown-field': 'A field or kwarg the schema does not list, often a misspelling',
+    'type-mismatch': 'A field value has the wrong type',
+    'empty-field': "A 'next' or 'outputs' field has no value",
+    'empty-item': "A 'next' or 'outputs' list has a blank item",
+    'invalid-list': "A 'next' or 'outputs' field is not a list",
+    'empty-value': 'A node field has no value',
+    'mixed-indentation': 'A line is indented with both tabs and spaces',
+    'unknown-agent': 'An agent_path that is not in the agent catalog',
+    'unknown-agent-output': 'An output the agent does not return',
+    'unknown-llm-provider': 'A model_provider that is not in the provider table',
+    'unknown-llm-model': 'A model the chosen provider does not offer',
+    'llm-parameter-range': 'A temperature or top_p outside the range the provider accepts',
+    'missing-response-format': 'convert_to_dict without a response_format',
+    'invalid-message-role': 'A message whose role is not system, developer, user, assistant or tool',
+    'code-indentation': "A Code Agent's Python mixing tabs and spaces in its indentation",
+    'code-missing-main': "A Code Agent's Python without a top-level def main(...)",
+    'unresolved-reference': 'A next or branch target that does not exist',
+    'illegal-jump': 'A next or branch target on the other side of a subgraph boundary',
+    'cycle': 'Nodes that route back to themselves outside a loop body',
+    'no-entry': 'A workflow or subgraph where every node is the target of another',
+    'multiple-entries': 'A workflow or subgraph with more than one entry node',
+    'unreachable-node': 'A node no entry node leads to',
+    'dead-end': 'A node from which no terminal node can be reached',
+    'empty-template': 'An empty {{ }} placeholder',
+    'template-unknown-node': 'A template expression referencing a node that does not exist',
+    'template-not-upstream': 'A template expression referencing a node that runs later',
+    'template-unknown-output': 'A template expression reading an output the node does not declare',
+    'condition-order': "ifelse conditions that are not an 'if', then any 'elif's, then at most one 'else'",
+    'empty-condition': "An 'if' or 'elif' with an empty condition",
+    'condition-syntax': 'A condition that is not a valid expression',
+    'aggregator-unknown-node': 'An aggregator output keyed by a node that does not exist',
+    'aggregator-not-upstream': 'An aggregator output keyed by a node that does not run before it',
+    'aggregator-unknown-output': 'An aggregator param_name the source node does not declare',
+    'empty-substitution': 'An empty ${} placeholder',
+    'missing-substitution-file': 'A ${path} substitution pointing at a file that does not exist',
+    'unknown-substitution-variable': 'A ${NAME} substitution naming a variable missing from .genor/variables.yaml'
+};
+
+export type LintRule = keyof typeof LINT_RULES;
+
+export type RuleSetting = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+/** Rules switched off by comments; `all` when a directive names no rule */
+type RuleSet = Set<string> | 'all';
+
+/**
+ * Rules disabled by comments in a document:
+ *
+ *     # genor-lint-disable empty-value, dead-end   (whole file)
+ *     # genor-lint-disable-next-line empty-value   (the following line)
+ *
+ * A directive without rule IDs disables every rule.
+ */
+export interface Suppressions {
+    file?: RuleSet;
+    /** Zero-based line number to the rules disabled on it */
+    lines: Map<number, RuleSet>;
+}
+
+const DIRECTIVE_PATTERN = /(?:^|\s)#\s*genor-lint-(disable-next-line|disable)\b(.*)$/;
+
+function mergeRules(existing: RuleSet | undefined, rules: RuleSet): RuleSet {
+    if (existing === 'all' || rules === 'all') {
+        return 'all';
+    }
+    return new Set([...(existing || []), ...rules]);
+}
+
+export function parseSuppressions(text: string): Suppressions {
+    const suppressions: Suppressions = { lines: new Map() };
+
+    text.split('\n').forEach((line, index) => {
+        const match = line.match(DIRECTIVE_PATTERN);
+        if (!match) {
+            return;
+        }
+
+        // Anything after `--` is an explanation, as in ESLint
+        const ids = match[2].split('--')[0].split(/[\s,]+/).filter(id => id !== '');
+        const rules: RuleSet = ids.length > 0 ? new Set(ids) : 'all';
+
+        if (match[1] === 'disable') {
+            suppressions.file = mergeRules(suppressions.file, rules);
+        } else {
+            suppressions.lines.set(index + 1, mergeRules(suppressions.lines.get(index + 1), rules));
+        }
+    });
+
+    return suppressions;
+}
+
+function includesRule(rules: RuleSet | undefined, rule: string): boolean {
+    return rules === 'all' || (rules !== undefined && rules.has(rule));
+}
+
+/**
+ * Whether a finding of the rule starting on the given line is disabled by a comment.
+ */
+export function isSuppressed(suppressions: Suppressions, rule: string, line: number): boolean {
+    return includesRule(suppressions.file, rule) || includesRule(suppressions.lines.get(line), rule);
+}
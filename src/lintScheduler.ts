@@ -0,0 +1,46 @@
+// Delay before linting a document that is being edited
+export const LINT_DEBOUNCE_MS = 300;
+
+/**
+ * The timer functions a scheduler waits with.
+ */
+export interface Timers {
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Debounces linting per document: every edit restarts the document's delay,
+ * so it is linted once, after typing pauses.
+ */
+export class LintScheduler {
+    private pending = new Map<string, unknown>();
+
+    constructor(private delay: number = LINT_DEBOUNCE_MS, private timers: Timers = { setTimeout, clearTimeout }) { }
+
+    /**
+     * Runs `lint` for the document `key` after the delay, replacing any lint
+     * still waiting for it.
+     */
+    schedule(key: string, lint: () => void): void {
+        this.cancel(key);
+        this.pending.set(key, this.timers.setTimeout(() => {
+            this.pending.delete(key);
+            lint();
+        }, this.delay));
+    }
+
+    /**
+     * Drops the lint waiting for a document, e.g. because it was closed.
+     */
+    cancel(key: string): void {
+        if (this.pending.has(key)) {
+            this.timers.clearTimeout(this.pending.get(key));
+            this.pending.delete(key);
+        }
+    }
+
+    isPending(key: string): boolean {
+        return this.pending.has(key);
+    }
+}
@@ -0,0 +1,102 @@
+import { parseSchemaFile, SchemaError } from './nodeTypeSchema';
+
+/**
+ * A model provider LLM agents can use, by `model_provider` name.
+ */
+export interface LlmProvider {
+    /** Models the provider offers; undefined when any name is accepted, e.g. deployment names */
+    models?: string[];
+    /** Highest `temperature` the provider accepts */
+    maxTemperature: number;
+}
+
+export type LlmProviders = { [provider: string]: LlmProvider };
+
+/** Workspace file that adds or overrides model providers */
+export const LLM_PROVIDERS_FILE = '.genor/llm-providers.yaml';
+
+/** Roles a chat message can have */
+export const MESSAGE_ROLES = ['system', 'developer', 'user', 'assistant', 'tool'];
+
+const DEFAULT_MAX_TEMPERATURE = 2;
+
+export const BUILTIN_LLM_PROVIDERS: LlmProviders = {
+    openai: {
+        models: [
+            'gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano',
+            'gpt-4-turbo', 'gpt-3.5-turbo', 'o1', 'o1-mini', 'o3', 'o3-mini', 'o4-mini'
+        ],
+        maxTemperature: 2
+    },
+    // Azure models are addressed by deployment name, which can be anything
+    azureopenai: {
+        maxTemperature: 2
+    },
+    anthropic: {
+        models: [
+            'claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest',
+            'claude-sonnet-4-0', 'claude-opus-4-0'
+        ],
+        maxTemperature: 1
+    },
+    google: {
+        models: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+        maxTemperature: 2
+    },
+    // Local models are whatever has been pulled
+    ollama: {
+        maxTemperature: 2
+    }
+};
+
+const PROVIDER_KEYS = ['models', 'max_temperature'];
+
+/**
+ * Parses the model providers file, keyed by `model_provider`:
+ *
+ *     openai:
+ *       models: [gpt-4o, gpt-4o-mini]
+ *     my_gateway:
+ *       max_temperature: 1
+ *
+ * Leaving out `models` accepts any model name.
+ * @throws SchemaError when the file is not a valid providers file
+ */
+export function parseLlmProviders(text: string): LlmProviders {
+    const providers: LlmProviders = {};
+
+    Object.entries(parseSchemaFile(text, 'model providers')).forEach(([name, value]) => {
+        const definition = (value ?? {}) as { [key: string]: unknown };
+        if (typeof definition !== 'object' || Array.isArray(definition)) {
+            throw new SchemaError('provider definitions must be a map', name);
+        }
+
+        Object.keys(definition).forEach(key => {
+            if (!PROVIDER_KEYS.includes(key)) {
+                throw new SchemaError(`unknown key "${key}", expected one of ${PROVIDER_KEYS.join(', ')}`, name);
+            }
+        });
+
+        const models = definition.models;
+        if (models !== undefined && (!Array.isArray(models) || !models.every(model => typeof model === 'string'))) {
+            throw new SchemaError('"models" must be a list of model names', `${name}.models`);
+        }
+
+        const maxTemperature = definition.max_temperature ?? DEFAULT_MAX_TEMPERATURE;
+        if (typeof maxTemperature !== 'number' || maxTemperature < 0) {
+            throw new SchemaError('"max_temperature" must be a positive number', `${name}.max_temperature`);
+        }
+
+        providers[name] = { models, maxTemperature };
+    });
+
+    return providers;
+}
+
+/**
+ * Layers provider tables over each other; a later definition of a provider
+ * replaces the earlier one.
+ */
+export function mergeLlmProviders(...layers: LlmProviders[]): LlmProviders {
+    return Object.assign({}, ...layers);
+}
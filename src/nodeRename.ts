@@ -0,0 +1,80 @@
+import { indexWorkflow, NodeSymbol, relatedSymbols } from './workflowIndex';
+
+/**
+ * Text to replace with the new name. Offsets are absolute positions in the file.
+ */
+export interface RenameSpan {
+    start: number;
+    end: number;
+}
+
+// The names template expressions can reference, see REFERENCE_PATTERN in templateExpressions.ts
+const NODE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Whether a name can be used for a node, including in `{{ name.outputs }}`.
+ */
+export function isValidNodeName(name: string): boolean {
+    return NODE_NAME_PATTERN.test(name);
+}
+
+function replaceSpans(text: string, spans: RenameSpan[], newName: string): string {
+    let result = '';
+    let last = 0;
+    spans.forEach(span => {
+        result += text.slice(last, span.start) + newName;
+        last = span.end;
+    });
+    return result + text.slice(last);
+}
+
+/**
+ * Finds what to replace to rename a node in one file: the definition at
+ * `definitionOffset` and every reference resolving to it or, without one,
+ * the references to `name` that do not resolve in the file because the node
+ * is defined in another one.
+ * @throws Error when the new name is taken in the node's scope, or when the
+ *   renamed references would no longer resolve as they did
+ */
+export function planNodeRename(text: string, name: string, newName: string, definitionOffset?: number): RenameSpan[] {
+    const index = indexWorkflow(text);
+
+    let renamed: NodeSymbol[];
+    let definition: NodeSymbol | undefined;
+    if (definitionOffset !== undefined) {
+        definition = index.symbols.find(symbol => symbol.kind === 'definition' && symbol.start === definitionOffset);
+        if (!definition || definition.name !== name) {
+            throw new Error(`Node "${name}" is no longer defined here`);
+        }
+        if (index.symbols.some(symbol =>
+            symbol.kind === 'definition' && symbol.scope === definition!.scope && symbol.name === newName)) {
+            throw new Error(`A node named "${newName}" already exists in the same scope`);
+        }
+        renamed = relatedSymbols(index, definition);
+    } else {
+        renamed = index.symbols.filter(symbol => symbol.name === name && symbol.kind !== 'definition' && !symbol.definition);
+    }
+
+    // Check the renamed file still resolves every reference the same way,
+    // e.g. that a subgraph node with the new name does not capture them
+    const spans = renamed.map(symbol => ({ start: symbol.start, end: symbol.end }));
+    const renamedIndex = indexWorkflow(replaceSpans(text, spans, newName));
+    const shift = newName.length - name.length;
+    const renamedSymbol = (position: number) => {
+        const start = renamed[position].start + position * shift;
+        return renamedIndex.symbols.find(symbol => symbol.start === start && symbol.name === newName);
+    };
+
+    const renamedDefinition = definition ? renamedSymbol(renamed.indexOf(definition)) : undefined;
+    renamed.forEach((symbol, position) => {
+        if (symbol === definition) {
+            return;
+        }
+        const after = renamedSymbol(position);
+        if (!after || after.definition !== renamedDefinition) {
+            throw new Error(`Renaming "${name}" to "${newName}" would change which node some references point to`);
+        }
+    });
+
+    return spans;
+}
@@ -0,0 +1,291 @@
+import { isMap, isScalar, isSeq, parse } from 'yaml';
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+const VALUE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'array', 'object'];
+
+const DEFINITION_KEYS = ['type', 'required', 'fields', 'items', 'require_one_of', 'additional_fields'];
+
+/**
+ * Expected shape of a node field. Object fields can describe their own
+ * fields, and array fields the shape of each item.
+ */
+export interface FieldSchema {
+    /** Accepted value types; any type is accepted when omitted */
+    type?: ValueType[];
+    required?: boolean;
+    fields?: { [field: string]: FieldSchema };
+    items?: FieldSchema;
+    /** Groups of fields where at least one field of each group must be present */
+    requireOneOf?: string[][];
+    /** Set to false to report fields missing from `fields`, e.g. misspelled ones */
+    additionalFields?: boolean;
+}
+
+/** Node type name (lowercase) to the schema of the node's map */
+export type NodeTypeSchemas = { [nodeType: string]: FieldSchema };
+
+/** Workspace file that adds or overrides node type definitions */
+export const NODE_TYPE_SCHEMA_FILE = '.genor/node-types.yaml';
+
+const common: { [field: string]: FieldSchema } = {
+    type: { type: ['string'], required: true },
+    name: { type: ['string'], required: true },
+    next: {}
+};
+
+const loopSubgraph: FieldSchema = {
+    type: ['object'],
+    required: true,
+    fields: {
+        nodes: { type: ['object'], required: true }
+    }
+};
+
+export const BUILTIN_NODE_TYPES: NodeTypeSchemas = {
+    agent: {
+        fields: {
+            ...common,
+            inputs: {
+                type: ['object'],
+                required: true,
+                fields: {
+                    agent_path: { type: ['string'], required: true },
+                    init_kwargs: { type: ['object'] },
+                    call_kwargs: { type: ['object'] },
+                    call_args: { type: ['object', 'array'] }
+                },
+                // call_args is an alternative spelling of call_kwargs
+                requireOneOf: [['call_kwargs', 'call_args']]
+            },
+            outputs: { required: true }
+        }
+    },
+    ifelse: {
+        fields: {
+            ...common,
+            conditions: {
+                type: ['array'],
+                required: true,
+                items: { type: ['object'] }
+            }
+        }
+    },
+    aggregator: {
+        fields: {
+            ...common,
+            inputs: { type: ['object'] },
+            outputs: { required: true }
+        }
+    },
+    iterator: {
+        fields: {
+            ...common,
+            inputs: {
+                type: ['object'],
+                required: true,
+                fields: {
+                    iterable: { type: ['string', 'array'], required: true },
+                    subgraph: loopSubgraph
+                }
+            },
+            outputs: {}
+        }
+    },
+    while: {
+        fields: {
+            ...common,
+            inputs: {
+                type: ['object'],
+                required: true,
+                fields: {
+                    subgraph: loopSubgraph
+                }
+            },
+            outputs: {}
+        }
+    }
+};
+
+export class SchemaError extends Error {
+    constructor(message: string, public readonly path: string) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = 'SchemaError';
+    }
+}
+
+function parseTypes(value: unknown, path: string): ValueType[] {
+    const types = Array.isArray(value) ? value : [value];
+    types.forEach(type => {
+        if (!VALUE_TYPES.includes(type)) {
+            throw new SchemaError(`unknown value type "${type}", expected one of ${VALUE_TYPES.join(', ')}`, path);
+        }
+    });
+    return types;
+}
+
+/**
+ * Parses one field definition from a schema file.
+ * @param path Location of the definition, used in error messages
+ * @throws SchemaError when the definition is invalid
+ */
+export function parseFieldSchema(value: unknown, path: string): FieldSchema {
+    // A bare type name is shorthand for an optional field of that type
+    if (typeof value === 'string' || Array.isArray(value)) {
+        return { type: parseTypes(value, path) };
+    }
+    if (value === null || value === undefined) {
+        return {};
+    }
+    if (typeof value !== 'object') {
+        throw new SchemaError('field definitions must be a map or a type name', path);
+    }
+
+    const definition = value as { [key: string]: unknown };
+    const schema: FieldSchema = {};
+
+    Object.keys(definition).forEach(key => {
+        if (!DEFINITION_KEYS.includes(key)) {
+            throw new SchemaError(`unknown key "${key}", expected one of ${DEFINITION_KEYS.join(', ')}`, path);
+        }
+    });
+
+    if (definition.type !== undefined) {
+        schema.type = parseTypes(definition.type, `${path}.type`);
+    }
+    if (definition.required !== undefined) {
+        if (typeof definition.required !== 'boolean') {
+            throw new SchemaError('"required" must be true or false', `${path}.required`);
+        }
+        schema.required = definition.required;
+    }
+    if (definition.fields !== undefined) {
+        schema.fields = parseFields(definition.fields, `${path}.fields`);
+    }
+    if (definition.items !== undefined) {
+        schema.items = parseFieldSchema(definition.items, `${path}.items`);
+    }
+    if (definition.require_one_of !== undefined) {
+        const groups = definition.require_one_of;
+        if (!Array.isArray(groups) || !groups.every(group => Array.isArray(group) && group.every(field => typeof field === 'string'))) {
+            throw new SchemaError('"require_one_of" must be a list of field name lists', `${path}.require_one_of`);
+        }
+        schema.requireOneOf = groups;
+    }
+    if (definition.additional_fields !== undefined) {
+        if (typeof definition.additional_fields !== 'boolean') {
+            throw new SchemaError('"additional_fields" must be true or false', `${path}.additional_fields`);
+        }
+        schema.additionalFields = definition.additional_fields;
+    }
+
+    return schema;
+}
+
+function parseFields(value: unknown, path: string): { [field: string]: FieldSchema } {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new SchemaError('"fields" must be a map of field names to definitions', path);
+    }
+
+    const fields: { [field: string]: FieldSchema } = {};
+    Object.entries(value).forEach(([field, definition]) => {
+        fields[field] = parseFieldSchema(definition, `${path}.${field}`);
+    });
+    return fields;
+}
+
+/**
+ * Parses the node type schema file. It maps each node type to its fields:
+ *
+ *     retriever:
+ *       fields:
+ *         name: { type: string, required: true }
+ *         inputs:
+ *           type: object
+ *           required: true
+ *           fields:
+ *             index: { type: string, required: true }
+ *             top_k: number
+ *       require_one_of: [[outputs, next]]
+ *
+ * @throws SchemaError when the file is not a valid schema
+ */
+export function parseNodeTypeSchemas(text: string): NodeTypeSchemas {
+    const schemas: NodeTypeSchemas = {};
+    Object.entries(parseSchemaFile(text, 'node types')).forEach(([nodeType, definition]) => {
+        schemas[nodeType.toLowerCase()] = parseFieldSchema(definition, nodeType);
+    });
+    return schemas;
+}
+
+/**
+ * Reads a schema file that maps names to definitions. An empty file is an empty map.
+ * @param entries What the file's keys are, for error messages
+ * @throws SchemaError when the file is not valid YAML or not a map
+ */
+export function parseSchemaFile(text: string, entries: string): { [name: string]: unknown } {
+    let data: unknown;
+    try {
+        data = parse(text);
+    } catch (e: any) {
+        throw new SchemaError(`YAML Syntax Error: ${e.message}`, '');
+    }
+
+    // An empty file defines nothing
+    if (data === null || data === undefined) {
+        return {};
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+        throw new SchemaError(`the file must be a map of ${entries} to definitions`, '');
+    }
+    return data as { [name: string]: unknown };
+}
+
+/**
+ * Layers node type definitions over each other. A definition for a type that
+ * already exists replaces the field definitions it names and keeps the rest.
+ */
+export function mergeNodeTypeSchemas(...layers: NodeTypeSchemas[]): NodeTypeSchemas {
+    const merged: NodeTypeSchemas = {};
+
+    layers.forEach(layer => {
+        Object.entries(layer).forEach(([nodeType, schema]) => {
+            const base = merged[nodeType];
+            merged[nodeType] = base
+                ? {
+                    ...base,
+                    ...schema,
+                    fields: { ...base.fields, ...schema.fields }
+                }
+                : schema;
+        });
+    });
+
+    return merged;
+}
+
+/**
+ * The value type of a parsed YAML value, as named in schemas.
+ */
+export function valueTypeOf(value: unknown): ValueType | undefined {
+    if (isScalar(value)) {
+        value = value.value;
+    }
+    if (isMap(value)) {
+        return 'object';
+    }
+    if (isSeq(value)) {
+        return 'array';
+    }
+    switch (typeof value) {
+        case 'string':
+            return 'string';
+        case 'number':
+        case 'bigint':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        default:
+            return undefined;
+    }
+}
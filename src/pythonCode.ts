@@ -0,0 +1,82 @@
+/**
+ * A problem in the Python code of a Code Agent. Lines are zero-based lines of
+ * the code and columns are character offsets within them; `line` is undefined
+ * for problems with the code as a whole.
+ */
+export interface CodeProblem {
+    rule: 'code-indentation' | 'code-missing-main';
+    message: string;
+    line?: number;
+    start: number;
+    end: number;
+}
+
+// The entry point the Code Agent calls
+const MAIN_PATTERN = /^(?:async\s+)?def\s+main\s*\(/;
+
+const TRIPLE_QUOTES = /"""|'''/g;
+
+/**
+ * Checks the code a Code Agent runs: indentation Python would reject with a
+ * TabError, and a missing top-level `def main(...)`.
+ */
+export function checkPythonCode(code: string): CodeProblem[] {
+    const problems: CodeProblem[] = [];
+    let indentStyle: '\t' | ' ' | undefined;
+    let inString = false;
+    let hasMain = false;
+
+    code.split(/\r?\n/).forEach((line, index) => {
+        // Lines inside a triple-quoted string are text, not code
+        const startsInString = inString;
+        inString = (line.match(TRIPLE_QUOTES) || []).length % 2 === 1 ? !inString : inString;
+        if (startsInString || line.trim() === '' || line.trimStart().startsWith('#')) {
+            return;
+        }
+
+        if (MAIN_PATTERN.test(line)) {
+            hasMain = true;
+        }
+
+        const indentation = line.match(/^[ \t]*/)![0];
+        if (indentation === '') {
+            return;
+        }
+
+        if (indentation.includes('\t') && indentation.includes(' ')) {
+            problems.push({
+                rule: 'code-indentation',
+                message: 'Mixed tabs and spaces in Python indentation',
+                line: index,
+                start: 0,
+                end: indentation.length
+            });
+            return;
+        }
+
+        const style = indentation[0] as '\t' | ' ';
+        if (indentStyle === undefined) {
+            indentStyle = style;
+        } else if (style !== indentStyle) {
+            problems.push({
+                rule: 'code-indentation',
+                message: `Python indentation uses ${style === '\t' ? 'tabs' : 'spaces'}, but earlier lines use ` +
+                    `${indentStyle === '\t' ? 'tabs' : 'spaces'}`,
+                line: index,
+                start: 0,
+                end: indentation.length
+            });
+        }
+    });
+
+    if (!hasMain) {
+        problems.push({
+            rule: 'code-missing-main',
+            message: "Code has no top-level 'def main(...)' for the Code Agent to call",
+            start: 0,
+            end: 0
+        });
+    }
+
+    return problems;
+}
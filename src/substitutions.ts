@@ -0,0 +1,131 @@
+import * as path from 'path';
+import { isMap, isScalar, parseDocument } from 'yaml';
+import { SchemaError } from './nodeTypeSchema';
+
+/** Workspace file defining the variables `${NAME}` substitutions refer to */
+export const VARIABLES_FILE = '.genor/variables.yaml';
+
+/**
+ * A `${...}` substitution. Offsets are absolute positions in the source text;
+ * `start`/`end` cover the whole substitution and `bodyStart`/`bodyEnd` what
+ * is between the braces.
+ */
+export interface Substitution {
+    body: string;
+    start: number;
+    end: number;
+    bodyStart: number;
+    bodyEnd: number;
+}
+
+/**
+ * A variable from the variables file. Offsets are positions of its key in that file.
+ */
+export interface VariableDefinition {
+    value: unknown;
+    start: number;
+    end: number;
+}
+
+export type SubstitutionVariables = { [name: string]: VariableDefinition };
+
+const SUBSTITUTION_PATTERN = /\$\{([^{}]*)\}/g;
+
+/**
+ * Finds every substitution in a slice of source text.
+ * @param source The raw source of a YAML scalar (quotes included)
+ * @param offset Position of `source` in the whole document
+ */
+export function findSubstitutions(source: string, offset: number = 0): Substitution[] {
+    const substitutions: Substitution[] = [];
+
+    SUBSTITUTION_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SUBSTITUTION_PATTERN.exec(source)) !== null) {
+        const start = offset + match.index;
+        substitutions.push({
+            body: match[1],
+            start,
+            end: start + match[0].length,
+            bodyStart: start + 2,
+            bodyEnd: start + 2 + match[1].length
+        });
+    }
+
+    return substitutions;
+}
+
+/**
+ * Whether a substitution is an unfilled placeholder such as `${}`.
+ */
+export function isEmptySubstitution(substitution: Substitution): boolean {
+    return substitution.body.trim() === '';
+}
+
+// Extensions of the prompt, template and schema files substitutions load
+const FILE_EXTENSIONS = ['md', 'txt', 'prompt', 'json', 'yaml', 'yml', 'j2', 'jinja', 'jinja2', 'py', 'csv', 'xml', 'html'];
+
+/**
+ * Whether a substitution names a file (`${prompts/summarize.md}`) rather than
+ * a variable (`${SUMMARY_PROMPT}`, `${config.model}`): paths have a separator
+ * or a known file extension.
+ */
+export function isFileReference(body: string): boolean {
+    const reference = body.trim();
+    const extension = /\.([A-Za-z0-9]+)$/.exec(reference);
+    return /[\\/]/.test(reference) || (extension !== null && FILE_EXTENSIONS.includes(extension[1].toLowerCase()));
+}
+
+/**
+ * Where a file substitution may point: relative to the workflow's folder,
+ * then to the workspace root.
+ */
+export function substitutionFileCandidates(body: string, workflowPath: string, root?: string): string[] {
+    const reference = body.trim();
+    const candidates = [path.resolve(path.dirname(workflowPath), reference)];
+    if (root) {
+        const fromRoot = path.resolve(root, reference);
+        if (!candidates.includes(fromRoot)) {
+            candidates.push(fromRoot);
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Parses a variables file, a map of variable names to values:
+ *
+ *     SUMMARY_PROMPT: "Summarize the document in three sentences."
+ *     OUTPUT_SCHEMA: { type: object }
+ *
+ * @throws SchemaError when the file is not valid YAML or not a map
+ */
+export function parseVariables(text: string): SubstitutionVariables {
+    const doc = parseDocument(text);
+    if (doc.errors.length > 0) {
+        throw new SchemaError(`YAML Syntax Error: ${doc.errors[0].message}`, '');
+    }
+
+    // An empty file defines nothing
+    if (doc.contents === null || (isScalar(doc.contents) && doc.contents.value === null)) {
+        return {};
+    }
+    if (!isMap(doc.contents)) {
+        throw new SchemaError('the file must be a map of variable names to values', '');
+    }
+
+    const values = doc.toJS();
+    const variables: SubstitutionVariables = {};
+    doc.contents.items.forEach(pair => {
+        if (!isScalar(pair.key) || !pair.key.range) {
+            return;
+        }
+        const name = String(pair.key.value);
+        variables[name] = {
+            value: values[name],
+            start: pair.key.range[0],
+            end: pair.key.range[1]
+        };
+    });
+    return variables;
+}
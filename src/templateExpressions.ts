@@ -0,0 +1,83 @@
+/**
+ * A `{{ node.outputs.field }}` reference inside a template expression.
+ * Offsets are absolute positions in the source text.
+ */
+export interface OutputReference {
+    node: string;
+    /** Undefined when the expression uses the whole `outputs` object */
+    field?: string;
+    start: number;
+    end: number;
+    /** Span of the field name, when there is one */
+    fieldStart?: number;
+    fieldEnd?: number;
+}
+
+/**
+ * A `{{ ... }}` expression. Offsets are absolute positions in the source text
+ * and cover the braces.
+ */
+export interface TemplateExpression {
+    body: string;
+    start: number;
+    end: number;
+    references: OutputReference[];
+}
+
+const EXPRESSION_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+// node.outputs, node.outputs.field and node.outputs['field'] / node.outputs["field"]
+const REFERENCE_PATTERN = /\b([A-Za-z_][\w-]*)\.outputs\b(?:\.([A-Za-z_]\w*)|\[\s*(['"])([^'"]+)\3\s*\])?/g;
+
+/**
+ * Finds every template expression in a slice of source text.
+ * @param source The raw source of a YAML scalar (quotes included)
+ * @param offset Position of `source` in the whole document
+ */
+export function findTemplateExpressions(source: string, offset: number = 0): TemplateExpression[] {
+    const expressions: TemplateExpression[] = [];
+
+    EXPRESSION_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = EXPRESSION_PATTERN.exec(source)) !== null) {
+        const body = match[1];
+        const bodyOffset = offset + match.index + 2;
+        const references: OutputReference[] = [];
+
+        REFERENCE_PATTERN.lastIndex = 0;
+        let reference: RegExpExecArray | null;
+        while ((reference = REFERENCE_PATTERN.exec(body)) !== null) {
+            const start = bodyOffset + reference.index;
+            const field = reference[2] ?? reference[4];
+            const outputReference: OutputReference = {
+                node: reference[1],
+                field,
+                start,
+                end: start + reference[0].length
+            };
+
+            if (field !== undefined) {
+                const fieldIndex = reference[0].lastIndexOf(field);
+                outputReference.fieldStart = start + fieldIndex;
+                outputReference.fieldEnd = outputReference.fieldStart + field.length;
+            }
+            references.push(outputReference);
+        }
+
+        expressions.push({
+            body,
+            start: offset + match.index,
+            end: offset + match.index + match[0].length,
+            references
+        });
+    }
+
+    return expressions;
+}
+
+/**
+ * Whether an expression is an unfilled placeholder such as `{{ }}`.
+ */
+export function isEmptyExpression(expression: TemplateExpression): boolean {
+    return expression.body.trim() === '';
+}
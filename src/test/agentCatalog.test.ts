@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { BUILTIN_AGENTS, closestMatch, mergeAgentCatalogs, parseAgentCatalog, requiresInitKwargs } from '../agentCatalog';
+
+suite('Agent Catalog Test Suite', () => {
+	test('Parses agents and their kwargs', () => {
+		const catalog = parseAgentCatalog([
+			'agents.Retriever:',
+			'  init_kwargs:',
+			'    index: { type: string, required: true }',
+			'  call_kwargs:',
+			'    query: string',
+			'    "**kwargs": any',
+			'  outputs: [documents]'
+		].join('\n'));
+
+		const retriever = mergeAgentCatalogs(BUILTIN_AGENTS, catalog)['agents.Retriever'];
+
+		assert.deepStrictEqual(retriever.callKwargs, { fields: { query: { type: ['string'] } }, additionalFields: true });
+		assert.deepStrictEqual(retriever.outputs, ['documents']);
+		assert.strictEqual(requiresInitKwargs(retriever), true);
+		assert.strictEqual(requiresInitKwargs(BUILTIN_AGENTS['genor_agents.custom_smart_judge_agents.identity_agent.IdentityAgent']), false);
+	});
+
+	test('Suggests close names only', () => {
+		assert.strictEqual(closestMatch('mesages', ['messages', 'model']), 'messages');
+		assert.strictEqual(closestMatch('prompt', ['messages', 'model']), undefined);
+	});
+});
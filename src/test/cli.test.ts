@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { run, settingsRules } from '../cli';
+
+// Runs the CLI, returning its exit code and what it printed
+function runCli(args: string[]): { code: number; output: string } {
+	let output = '';
+	const write = process.stdout.write;
+	process.stdout.write = ((chunk: string) => {
+		output += chunk;
+		return true;
+	}) as typeof process.stdout.write;
+	try {
+		return { code: run(args), output };
+	} finally {
+		process.stdout.write = write;
+	}
+}
+
+suite('CLI Test Suite', () => {
+	test('Reads rule severities from VS Code settings, skipping invalid ones', () => {
+		const warnings: string[] = [];
+		const rules = settingsRules({
+			'editor.tabSize': 2,
+			'genorYamlToolkit.lintRules': {
+				'unresolved-reference': 'warning',
+				'empty-item': 'off',
+				'no-such-rule': 'error',
+				'duplicate-key': 'loud',
+				'missing-field': 1
+			}
+		}, message => warnings.push(message));
+
+		assert.deepStrictEqual(rules, { 'unresolved-reference': 'warning', 'empty-item': 'off' });
+		assert.deepStrictEqual(warnings, [
+			'Unknown rule "no-such-rule"',
+			'Invalid severity "loud" for rule "duplicate-key"; expected one of error, warning, information, hint, off',
+			'Invalid severity 1 for rule "missing-field"; expected one of error, warning, information, hint, off'
+		]);
+	});
+
+	test('Ignores lint rule settings that are not an object', () => {
+		const warnings: string[] = [];
+
+		assert.deepStrictEqual(settingsRules({ 'genorYamlToolkit.lintRules': ['error'] }, message => warnings.push(message)), {});
+		assert.deepStrictEqual(settingsRules('error', message => warnings.push(message)), {});
+		assert.deepStrictEqual(settingsRules({}, message => warnings.push(message)), {});
+		assert.deepStrictEqual(warnings, [
+			'genorYamlToolkit.lintRules should map rule names to severities',
+			'expected a JSON object'
+		]);
+	});
+
+	test('Skips YAML that is not a workflow, as the editor does', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'genor-lint-'));
+		try {
+			fs.mkdirSync(path.join(root, 'ci'));
+			fs.writeFileSync(path.join(root, 'ci', 'build.yml'), 'on: push\njobs:\n  a: {}\n  a: {}\n');
+			fs.writeFileSync(path.join(root, 'compose.yaml'), 'services:\n  db:\n    image: !Ref Image\n');
+			fs.writeFileSync(path.join(root, 'flow.yaml'), 'nodes:\n  a:\n    name: A\n    next: [missing]\n');
+
+			const result = runCli(['--root', root, '--format', 'json', root]);
+			const files = new Set(JSON.parse(result.output).map((problem: { file: string }) => problem.file));
+			assert.deepStrictEqual([...files], ['flow.yaml']);
+			assert.strictEqual(result.code, 1);
+
+			assert.deepStrictEqual(runCli(['--root', root, '--format', 'json', path.join(root, 'compose.yaml')]), { code: 0, output: '[]\n' });
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { checkConditionSyntax } from '../conditionExpressions';
+
+suite('Condition Expressions Test Suite', () => {
+	test('Accepts Python expressions with template placeholders', () => {
+		[
+			'{{ classify.outputs.label }} == "urgent"',
+			'score > 0.5 and not flagged',
+			'len(items[1:]) >= 2 or kind not in ("a", "b")',
+			'value if value is not None else default',
+			'lookup({"a": 1}, key=name)["a"] % 2'
+		].forEach(condition => assert.strictEqual(checkConditionSyntax(condition), undefined, condition));
+	});
+
+	test('Accepts comprehensions, prefixed strings, number literals and assignment expressions', () => {
+		[
+			'any(x > 0 for x in {{ a.outputs.items }})',
+			'[x for x in y]',
+			'{k: v for k, v in pairs.items() if v} and {x for x in y for y in z}',
+			'x == f"{y}" or rb\'\\d\' in Br"raw" or u\'\'\'a\'\'\' == """b"""',
+			'0x1F == 31 and 0o17 + 0b1010 < 1_000_000 and 1.5e-3 != 2j and .5 < 1.',
+			'(a := 1)',
+			'sorted(items, key=lambda item: item[0], *args, **kwargs)'
+		].forEach(condition => assert.strictEqual(checkConditionSyntax(condition), undefined, condition));
+	});
+
+	test('Reports the position of the first syntax error', () => {
+		assert.deepStrictEqual(checkConditionSyntax('[x for x y]'), { message: "Expected 'in' in comprehension", start: 9, end: 10 });
+		assert.deepStrictEqual(checkConditionSyntax('x = 1'), {
+			message: "Unexpected '=': use '==' to compare values",
+			start: 2,
+			end: 3
+		});
+		assert.deepStrictEqual(checkConditionSyntax('(a and b'), { message: "Unclosed '('", start: 0, end: 1 });
+		assert.strictEqual(checkConditionSyntax('score >')?.message, 'Incomplete condition: expected a value at the end');
+		assert.strictEqual(checkConditionSyntax('{{ x.outputs.y } > 1')?.message, "Unclosed template expression: missing '}}'");
+		assert.strictEqual(checkConditionSyntax("'open")?.message, 'Unclosed string');
+	});
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { countChangedLines, describeDryRun } from '../formatSummary';
+import { computeLineChanges } from '../lineDiff';
+import { RoundTripError } from '../yamlRoundTrip';
+
+suite('Format Summary Test Suite', () => {
+	test('Counts the lines formatting adds and removes', () => {
+		const original = 'a:   1\nb: 2\nc:\n    - x\n';
+		const changes = computeLineChanges(original, 'a: 1\nb: 2\nc:\n  - x\nd: 3\n');
+
+		assert.deepStrictEqual(countChangedLines(original, changes), { linesAdded: 3, linesRemoved: 2 });
+		assert.deepStrictEqual(countChangedLines(original, []), { linesAdded: 0, linesRemoved: 0 });
+
+		// The last line has no line break
+		const unterminated = 'a: 1\nb:   2';
+		assert.deepStrictEqual(countChangedLines(unterminated, computeLineChanges(unterminated, 'a: 1\nb: 2\n')), { linesAdded: 1, linesRemoved: 1 });
+	});
+
+	test('Lists changed and skipped files in the dry run', () => {
+		const lines = describeDryRun(
+			[{ path: 'flows/main.yaml', linesAdded: 3, linesRemoved: 2 }],
+			[
+				{ path: 'flows/broken.yaml', error: new Error('Unexpected token') },
+				{ path: 'flows/lossy.yaml', error: new RoundTripError([]) }
+			]
+		);
+
+		assert.deepStrictEqual(lines, [
+			'Dry run: 1 workflow file(s) would change',
+			'  flows/main.yaml: +3 -2 lines',
+			'  flows/broken.yaml: skipped (invalid YAML)',
+			'  flows/lossy.yaml: skipped (Output differs from the original document at 0 path(s))'
+		]);
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { computeLineChanges } from '../lineDiff';
+
+suite('Line Diff Test Suite', () => {
+	test('Touches only the lines that changed', () => {
+		const changes = computeLineChanges('a\nb\nc\nd\n', 'a\nc\nd\ne\n');
+
+		assert.deepStrictEqual(changes, [
+			{ start: 2, end: 4, text: '' },
+			{ start: 8, end: 8, text: 'e\n' }
+		]);
+	});
+
+	test('Keeps the document line endings', () => {
+		const changes = computeLineChanges('x\r\ny\r\nz\r\n', 'x\ny2\nz\n', '\r\n');
+
+		assert.deepStrictEqual(changes, [{ start: 3, end: 6, text: 'y2\r\n' }]);
+	});
+
+	test('Diffs a heavily changed document quickly', () => {
+		const lines = Array.from({ length: 6000 }, (_, i) => `key${i}: value${i}\n`);
+		const original = lines.join('');
+		const reindented = lines.map(line => `  ${line}`).join('');
+
+		const started = Date.now();
+		const changes = computeLineChanges(original, reindented);
+		assert.ok(Date.now() - started < 1000, `took ${Date.now() - started} ms`);
+
+		// Past the edit distance bound the whole changed region is one replacement
+		assert.deepStrictEqual(changes, [{ start: 0, end: original.length, text: reindented }]);
+
+		// Below it, unchanged lines between the edits are kept
+		const sparse = lines.map((line, i) => i % 10 === 0 ? `  ${line}` : line).join('');
+		const sparseChanges = computeLineChanges(original, sparse);
+		assert.strictEqual(sparseChanges.length, 600);
+		assert.ok(sparseChanges.every(change => change.text.startsWith('  key')));
+	});
+});
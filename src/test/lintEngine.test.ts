@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import { isWorkflowPath, isWorkflowText, lintText } from '../lintEngine';
+import { formatReport, toReportedProblems } from '../lintReport';
+
+const WORKFLOW = [
+	'nodes:',
+	'  start:',
+	'    name: Start',
+	'    type: agent',
+	'    inputs:',
+	'      agent_path: genor_agents.custom_smart_judge_agents.identity_agent.IdentityAgent',
+	'      init_kwargs: {}',
+	'      call_kwargs: {}',
+	'    next: [missing]',
+	''
+].join('\n');
+
+suite('Lint Engine Test Suite', () => {
+	test('Lints workflow text without an editor and applies rule settings', () => {
+		const lintErrors = lintText(WORKFLOW);
+		const reference = lintErrors.find(error => error.code === 'unresolved-reference');
+		assert.ok(reference);
+		assert.strictEqual(reference.severity, 'error');
+		assert.strictEqual(WORKFLOW.slice(reference.start, reference.end), 'missing');
+
+		const downgraded = lintText(WORKFLOW, { rules: { 'unresolved-reference': 'warning' } });
+		assert.strictEqual(downgraded.find(error => error.code === 'unresolved-reference')?.severity, 'warning');
+
+		const silenced = lintText('# genor-lint-disable unresolved-reference\n' + WORKFLOW);
+		assert.strictEqual(silenced.some(error => error.code === 'unresolved-reference'), false);
+
+		assert.strictEqual(isWorkflowPath('/repo/flows/main.yaml'), true);
+		assert.strictEqual(isWorkflowPath('/repo/flows/combined_graph.yaml'), false);
+		assert.strictEqual(isWorkflowPath('/repo/.genor/agents.yaml'), false);
+
+		assert.strictEqual(isWorkflowText(WORKFLOW), true);
+		assert.strictEqual(isWorkflowText('version: 1\n---\nnodes: {\n'), true);
+		assert.strictEqual(isWorkflowText('services:\n  web:\n    nodes: 2\n'), false);
+	});
+
+	test('Checks ifelse branch order and aggregator sources', () => {
+		const text = [
+			'nodes:',
+			'  start:',
+			'    name: Start',
+			'    type: ifelse',
+			'    conditions:',
+			'      - elif: "x >"',
+			'        then: [merge]',
+			'      - else: [merge]',
+			'  merge:',
+			'    name: Merge',
+			'    type: aggregator',
+			'    outputs:',
+			'      start:',
+			'        param_name: result',
+			'      ghost:',
+			'        param_name: value',
+			''
+		].join('\n');
+
+		const codes = lintText(text).map(error => error.code);
+		assert.ok(codes.includes('missing-field'), 'no if condition');
+		assert.ok(codes.includes('condition-syntax'));
+		assert.ok(codes.includes('aggregator-unknown-node'));
+		assert.ok(!codes.includes('aggregator-not-upstream'));
+
+		// An empty `if` is still an `if`: only the empty condition is reported
+		const emptyIf = text.replace('elif: "x >"', 'if: ""');
+		const findings = lintText(emptyIf)
+			.filter(error => ['missing-field', 'empty-condition', 'condition-order'].includes(error.code))
+			.map(error => [error.code, emptyIf.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [['empty-condition', '""']]);
+	});
+
+	test('Underlines the offending key or list item', () => {
+		// A node named like a node key must not attract findings meant for the key
+		const text = [
+			'nodes:',
+			'  outputs:',
+			'    name: Outputs',
+			'    type: agent',
+			'    inputs:',
+			'      agent_path: genor_agents.custom_smart_judge_agents.identity_agent.IdentityAgent',
+			'      call_kwargs: { x: 1 }',
+			'    outputs: [result]',
+			'    next:',
+			'      - ',
+			'      - ghost',
+			'  last:',
+			'    type: agent',
+			''
+		].join('\n');
+
+		const findings = lintText(text)
+			.filter(error => ['empty-item', 'missing-field', 'unresolved-reference'].includes(error.code))
+			.map(error => [error.code, text.slice(0, error.start).split('\n').length - 1, text.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [
+			['empty-item', 9, '- '],
+			['missing-field', 11, 'last'],
+			['missing-field', 11, 'last'],
+			['missing-field', 11, 'last'],
+			['unresolved-reference', 10, 'ghost']
+		]);
+	});
+
+	test('Reports parser problems and duplicate keys where they occur', () => {
+		const text = [
+			'nodes:',
+			'  loop:',
+			'    name: Loop',
+			'    name: Loop again',
+			'    type: iterator',
+			'    inputs:',
+			'      iterable: [1, 2]',
+			'      subgraph:',
+			'        nodes:',
+			'          done: { name: Inner }',
+			'    next: [done]',
+			'  done: { name: Done, tag: !!unknown x }',
+			'  loop: { name: Loop copy }',
+			''
+		].join('\n');
+
+		const findings = lintText(text)
+			.filter(error => ['yaml-warning', 'duplicate-key', 'duplicate-node', 'shadowed-node'].includes(error.code))
+			.map(error => [error.code, text.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [
+			['yaml-warning', '!!unknown'],
+			['duplicate-node', 'loop'],
+			['duplicate-key', 'name']
+		]);
+
+		// Without the duplicate, the inner "done" hides the outer one
+		const shadowed = lintText(text.replace('  loop: { name: Loop copy }\n', ''));
+		assert.deepStrictEqual(shadowed.filter(error => error.code === 'shadowed-node').map(error => error.start), [
+			text.indexOf('done: { name: Inner }')
+		]);
+	});
+
+	test('Reports one-based positions in JSON and SARIF', () => {
+		const problems = toReportedProblems('flows/main.yaml', WORKFLOW, lintText(WORKFLOW))
+			.filter(problem => problem.rule === 'unresolved-reference');
+		assert.deepStrictEqual(problems, [{
+			file: 'flows/main.yaml',
+			line: 9,
+			column: 12,
+			endLine: 9,
+			endColumn: 19,
+			severity: 'error',
+			rule: 'unresolved-reference',
+			message: 'Unresolved node reference: missing'
+		}]);
+
+		const result = JSON.parse(formatReport(problems, 'sarif')).runs[0].results[0];
+		assert.strictEqual(result.ruleId, 'unresolved-reference');
+		assert.strictEqual(result.level, 'error');
+		assert.deepStrictEqual(result.locations[0].physicalLocation.region, {
+			startLine: 9,
+			startColumn: 12,
+			endLine: 9,
+			endColumn: 19
+		});
+	});
+});
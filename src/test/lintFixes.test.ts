@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { TextChange } from '../lineDiff';
+import { fixAllChanges, fixChanges, LintFix, nodeStubChanges } from '../lintFixes';
+import { lintText } from '../lintEngine';
+
+function apply(text: string, changes: TextChange[]): string {
+	return [...changes]
+		.sort((a, b) => b.start - a.start)
+		.reduce((result, change) => result.slice(0, change.start) + change.text + result.slice(change.end), text);
+}
+
+suite('Lint Fixes Test Suite', () => {
+	const text = 'nodes:\n    a:\n        type: iterator\n        next:\n            -\n            - b\n    b: {}\n';
+
+	test('Inserts a stub for a missing field at the map\'s indentation', () => {
+		const fix: LintFix = {
+			kind: 'insertField',
+			field: 'inputs',
+			schema: { type: ['object'], fields: { iterable: { type: ['string'], required: true }, extra: {} } },
+			at: { after: text.indexOf('- b') + 3, keyOffset: text.indexOf('type'), parentKeyOffset: text.indexOf('a:') }
+		};
+
+		assert.strictEqual(apply(text, fixChanges(fix, text)), text.replace('- b\n', '- b\n        inputs:\n            iterable: ""\n'));
+	});
+
+	test('Removes blank list items and stubs nodes from templates', () => {
+		const removeItem: LintFix = { kind: 'removeItem', field: 'next', start: text.indexOf('-\n') + 1, end: text.indexOf('-\n') + 1 };
+		assert.strictEqual(apply(text, fixChanges(removeItem, text)), text.replace('            -\n', ''));
+
+		const createNode: LintFix = {
+			kind: 'createNode',
+			name: 'c',
+			at: { after: text.length, keyOffset: text.indexOf('a:'), parentKeyOffset: 0 }
+		};
+		const template = 'code_agent:\n  name: Code Agent\n  next:\n    - sample_next\n  outputs:\n    - out';
+		assert.strictEqual(apply(text, nodeStubChanges(createNode, text, template)),
+			text + '    c:\n        name: Code Agent\n        outputs:\n            - out\n');
+	});
+
+	test('Fixes everything at once without creating nodes', () => {
+		const workflow = [
+			'nodes:',
+			'  start:',
+			'    name: Start',
+			'    type: agent',
+			'    inputs:',
+			'      agent_path: genor_agents.custom_smart_judge_agents.identity_agent.IdentityAgent',
+			'      call_kwargs: { x: 1 }',
+			'    outputs: [result]',
+			'    next:',
+			'      -',
+			'      - finsih',
+			''
+		].join('\n');
+		const fixes = lintText(workflow).flatMap(error => error.fix ? [error.fix] : []);
+		assert.ok(fixes.some(fix => fix.kind === 'createNode'));
+
+		assert.strictEqual(apply(workflow, fixAllChanges(fixes, workflow)), workflow.replace('      -\n', ''));
+	});
+});
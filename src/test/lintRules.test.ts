@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { isSuppressed, parseSuppressions } from '../lintRules';
+
+suite('Lint Rules Test Suite', () => {
+	test('Honors file-level and next-line disable comments', () => {
+		const suppressions = parseSuppressions([
+			'# genor-lint-disable dead-end, cycle -- loops back on purpose',
+			'nodes:',
+			'  a:',
+			'    # genor-lint-disable-next-line empty-value',
+			'    note:',
+			'    prompt: "# genor-lint-disable-next-line is only text here"',
+			'    # genor-lint-disable-next-line',
+			'    other:'
+		].join('\n'));
+
+		assert.strictEqual(isSuppressed(suppressions, 'cycle', 2), true);
+		assert.strictEqual(isSuppressed(suppressions, 'empty-value', 4), true);
+		assert.strictEqual(isSuppressed(suppressions, 'missing-field', 4), false);
+		assert.strictEqual(isSuppressed(suppressions, 'empty-value', 6), false);
+		assert.strictEqual(isSuppressed(suppressions, 'missing-field', 7), true);
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { LintScheduler, Timers } from '../lintScheduler';
+
+// Timers that only fire when the test moves the clock forward
+function fakeTimers(): Timers & { advance(ms: number): void } {
+	let now = 0;
+	let lastHandle = 0;
+	const timers = new Map<number, { at: number; callback: () => void }>();
+	return {
+		setTimeout(callback: () => void, ms: number) {
+			timers.set(++lastHandle, { at: now + ms, callback });
+			return lastHandle;
+		},
+		clearTimeout(handle: unknown) {
+			timers.delete(handle as number);
+		},
+		advance(ms: number) {
+			now += ms;
+			[...timers].filter(([, timer]) => timer.at <= now).forEach(([handle, timer]) => {
+				timers.delete(handle);
+				timer.callback();
+			});
+		}
+	};
+}
+
+suite('Lint Scheduler Test Suite', () => {
+	test('Lints once, 300 ms after a burst of edits', () => {
+		const timers = fakeTimers();
+		const scheduler = new LintScheduler(undefined, timers);
+		const linted: number[] = [];
+
+		// Three quick edits, each restarting the delay
+		[1, 2, 3].forEach(version => {
+			scheduler.schedule('a.yaml', () => linted.push(version));
+			timers.advance(100);
+		});
+		timers.advance(199);
+		assert.deepStrictEqual(linted, []);
+		assert.strictEqual(scheduler.isPending('a.yaml'), true);
+
+		timers.advance(1);
+		assert.deepStrictEqual(linted, [3]);
+		assert.strictEqual(scheduler.isPending('a.yaml'), false);
+
+		timers.advance(1000);
+		assert.deepStrictEqual(linted, [3]);
+	});
+
+	test('Cancels the pending lint of a closed document only', () => {
+		const timers = fakeTimers();
+		const scheduler = new LintScheduler(undefined, timers);
+		const linted: string[] = [];
+
+		scheduler.schedule('a.yaml', () => linted.push('a'));
+		scheduler.schedule('b.yaml', () => linted.push('b'));
+		timers.advance(150);
+		scheduler.cancel('a.yaml');
+		assert.strictEqual(scheduler.isPending('a.yaml'), false);
+
+		timers.advance(1000);
+		assert.deepStrictEqual(linted, ['b']);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { BUILTIN_LLM_PROVIDERS, mergeLlmProviders, parseLlmProviders } from '../llmProviders';
+import { lintText } from '../lintEngine';
+
+suite('LLM Providers Test Suite', () => {
+	test('Parses providers over the built-in table', () => {
+		const providers = mergeLlmProviders(BUILTIN_LLM_PROVIDERS, parseLlmProviders([
+			'openai:',
+			'  models: [gpt-4o]',
+			'gateway:',
+			'  max_temperature: 1'
+		].join('\n')));
+
+		assert.deepStrictEqual(providers.openai, { models: ['gpt-4o'], maxTemperature: 2 });
+		assert.deepStrictEqual(providers.gateway, { models: undefined, maxTemperature: 1 });
+		assert.ok(providers.anthropic);
+		assert.throws(() => parseLlmProviders('openai:\n  model: [gpt-4o]\n'), /unknown key "model"/);
+	});
+
+	test('Lints LLM agent settings against the providers', () => {
+		const text = [
+			'nodes:',
+			'  answer:',
+			'    name: Answer',
+			'    type: agent',
+			'    inputs:',
+			'      agent_path: genor_agents.llm_agent.llm_agent.LLMAgent',
+			'      init_kwargs:',
+			'        model_provider: anthropic',
+			'        hyperparameters:',
+			'          model: gpt-4o',
+			'          temperature: 1.5',
+			'          top_p: 0.9',
+			'          convert_to_dict: true',
+			'      call_kwargs:',
+			'        messages:',
+			'          - role: human',
+			'            content: Hello',
+			'    outputs: [response]',
+			''
+		].join('\n');
+
+		const findings = lintText(text).map(error => [error.code, text.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [
+			['unknown-llm-model', 'gpt-4o'],
+			['llm-parameter-range', '1.5'],
+			['missing-response-format', 'true'],
+			['invalid-message-role', 'human']
+		]);
+	});
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { isValidNodeName, planNodeRename, RenameSpan } from '../nodeRename';
+
+function rename(text: string, spans: RenameSpan[], newName: string): string {
+	return spans.reduceRight((result, span) => result.slice(0, span.start) + newName + result.slice(span.end), text);
+}
+
+suite('Node Rename Test Suite', () => {
+	const text = [
+		'nodes:',
+		'  answer:',
+		'    type: agent',
+		'    inputs:',
+		'      prompt: "Answer {{ question }}"',
+		'    outputs: [response]',
+		'    next: [check]',
+		'  check:',
+		'    type: ifelse',
+		'    conditions:',
+		'      - if: "{{ answer.outputs.response }} != \'\'"',
+		'        then: collect',
+		'      - else: answer',
+		'  collect:',
+		'    type: aggregator',
+		'    outputs:',
+		'      answer:',
+		'        param_name: response',
+		''
+	].join('\n');
+
+	test('Renames the definition and every reference, leaving other keys alone', () => {
+		const renamed = rename(text, planNodeRename(text, 'answer', 'reply', text.indexOf('answer:')), 'reply');
+
+		assert.strictEqual(renamed, text
+			.replace('  answer:', '  reply:')
+			.replace('{{ answer.outputs', '{{ reply.outputs')
+			.replace('else: answer', 'else: reply')
+			.replace('      answer:', '      reply:'));
+		assert.ok(renamed.includes('outputs: [response]'));
+		assert.ok(renamed.includes('param_name: response'));
+	});
+
+	test('Renames references to a node defined in another file', () => {
+		const other = 'nodes:\n  start:\n    next: [answer]\n    prompt: "{{ answer.outputs.response }}"\n';
+		assert.strictEqual(rename(other, planNodeRename(other, 'answer', 'reply'), 'reply'),
+			'nodes:\n  start:\n    next: [reply]\n    prompt: "{{ reply.outputs.response }}"\n');
+	});
+
+	test('Rejects names that are taken or would capture references', () => {
+		assert.throws(() => planNodeRename(text, 'answer', 'check', text.indexOf('answer:')), /already exists in the same scope/);
+		assert.ok(!isValidNodeName('two words'));
+		assert.ok(isValidNodeName('summarize-2'));
+
+		const nested = [
+			'nodes:',
+			'  fetch:',
+			'    next: [loop]',
+			'  loop:',
+			'    type: iterator',
+			'    inputs:',
+			'      subgraph:',
+			'        nodes:',
+			'          item:',
+			'            prompt: "{{ fetch.outputs.data }}"',
+			''
+		].join('\n');
+		assert.throws(() => planNodeRename(nested, 'fetch', 'item', nested.indexOf('fetch:')), /would change which node/);
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { BUILTIN_NODE_TYPES, mergeNodeTypeSchemas, SchemaError, parseNodeTypeSchemas } from '../nodeTypeSchema';
+
+suite('Node Type Schema Test Suite', () => {
+	test('Parses definitions and layers them over the built-ins', () => {
+		const custom = parseNodeTypeSchemas([
+			'Retriever:',
+			'  fields:',
+			'    name: { type: string, required: true }',
+			'    inputs:',
+			'      type: object',
+			'      fields:',
+			'        top_k: number',
+			'      require_one_of: [[index, documents]]',
+			'agent:',
+			'  fields:',
+			'    outputs: [array, object]'
+		].join('\n'));
+
+		const merged = mergeNodeTypeSchemas(BUILTIN_NODE_TYPES, custom);
+
+		assert.deepStrictEqual(merged.retriever.fields!.inputs, {
+			type: ['object'],
+			fields: { top_k: { type: ['number'] } },
+			requireOneOf: [['index', 'documents']]
+		});
+		assert.deepStrictEqual(merged.agent.fields!.outputs, { type: ['array', 'object'] });
+		assert.deepStrictEqual(merged.agent.fields!.inputs, BUILTIN_NODE_TYPES.agent.fields!.inputs);
+	});
+
+	test('Rejects unknown value types and keys with their path', () => {
+		assert.throws(() => parseNodeTypeSchemas('custom:\n  fields:\n    size: integer\n'),
+			(e: SchemaError) => e.path === 'custom.fields.size');
+		assert.throws(() => parseNodeTypeSchemas('custom:\n  requried: true\n'),
+			(e: SchemaError) => e.path === 'custom');
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { checkPythonCode } from '../pythonCode';
+import { lintText } from '../lintEngine';
+import { agentTemplates } from '../agentTemplates';
+
+suite('Python Code Test Suite', () => {
+	test('Checks indentation and the main function', () => {
+		assert.deepStrictEqual(checkPythonCode('def main(x):\n    return x\n'), []);
+		assert.deepStrictEqual(checkPythonCode('async def main():\n\treturn 1\n'), []);
+
+		const problems = checkPythonCode([
+			'def helper(x):',
+			'    if x:',
+			'\t    return 1',
+			'\t\treturn 2',
+			'"""',
+			'\t docstring text is not code',
+			'"""'
+		].join('\n'));
+		assert.deepStrictEqual(problems.map(problem => [problem.rule, problem.line]), [
+			['code-indentation', 2],
+			['code-indentation', 3],
+			['code-missing-main', undefined]
+		]);
+	});
+
+	test('Reports code problems at their lines in the workflow', () => {
+		const text = [
+			'nodes:',
+			'  run:',
+			'    name: Run',
+			'    type: agent',
+			'    inputs:',
+			'      agent_path: genor_agents.custom_code.code_agent.CodeAgent',
+			'      init_kwargs:',
+			'        code: |',
+			'          def main(x):',
+			'              if x:',
+			'          \t    return 1',
+			'              return 0',
+			'      call_kwargs:',
+			'        x: 1',
+			'    outputs: [result]',
+			'  check:',
+			'    name: Check',
+			'    type: agent',
+			'    inputs:',
+			'      agent_path: genor_agents.custom_code.code_agent.CodeAgent',
+			'      init_kwargs:',
+			'        code: "print(1)"',
+			'      call_kwargs:',
+			'        x: 1',
+			'    outputs: [result]',
+			''
+		].join('\n');
+
+		const findings = lintText(text)
+			.filter(error => error.code?.startsWith('code-'))
+			.map(error => [error.code, text.slice(0, error.start).split('\n').length - 1, text.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [
+			['code-indentation', 10, '\t    '],
+			['code-missing-main', 21, 'code']
+		]);
+	});
+
+	test('Places code problems of the Code Agent template on their lines', () => {
+		const template = agentTemplates.find(candidate => candidate.name === 'Code Agent')!.template;
+		const text = 'nodes:\n' + template
+			.replace('def main():', 'def main():\n        \t  return 1')
+			.split('\n')
+			.map(line => '  ' + line)
+			.join('\n') + '\n';
+
+		const findings = lintText(text)
+			.filter(error => error.code?.startsWith('code-'))
+			.map(error => [error.code, text.slice(0, error.start).split('\n').length - 1, text.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [['code-indentation', 9, '\t  ']]);
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { findSubstitutions, isFileReference, parseVariables } from '../substitutions';
+import { lintText } from '../lintEngine';
+
+suite('Substitutions Test Suite', () => {
+	test('Finds substitutions and tells files from variables', () => {
+		const source = '"${prompts/summary.md} then ${ SCHEMA } and ${}"';
+		const substitutions = findSubstitutions(source, 10);
+		assert.deepStrictEqual(substitutions.map(substitution => substitution.body), ['prompts/summary.md', ' SCHEMA ', '']);
+		assert.strictEqual(substitutions[0].start, 11);
+		assert.strictEqual(substitutions[0].bodyStart, 13);
+
+		assert.strictEqual(isFileReference('prompts/summary.md'), true);
+		assert.strictEqual(isFileReference('schema.json'), true);
+		assert.strictEqual(isFileReference('SUMMARY_PROMPT'), false);
+		assert.strictEqual(isFileReference('config.model'), false);
+		assert.strictEqual(isFileReference('prompts.v2/summary'), true);
+		assert.strictEqual(isFileReference('template.J2'), true);
+
+		const variables = parseVariables('SUMMARY_PROMPT: Summarize it.\nSCHEMA:\n  type: object\n');
+		assert.deepStrictEqual(variables.SCHEMA.value, { type: 'object' });
+		assert.strictEqual(variables.SCHEMA.start, 30);
+	});
+
+	test('Lints empty placeholders, missing files and unknown variables', () => {
+		const text = [
+			'nodes:',
+			'  start:',
+			'    system_prompt: ${prompts/missing.md}',
+			'    response_format: ${SCHEMA}',
+			'    prompt: ${PROMT}',
+			'    other: ${}',
+			''
+		].join('\n');
+
+		const lintErrors = lintText(text, {
+			variables: parseVariables('PROMPT: hi\nSCHEMA: {}\n'),
+			fileExists: reference => reference === 'prompts/summary.md'
+		});
+		const findings = lintErrors
+			.filter(error => error.code.includes('substitution'))
+			.map(error => [error.code, text.slice(error.start, error.end)]);
+		assert.deepStrictEqual(findings, [
+			['missing-substitution-file', 'prompts/missing.md'],
+			['unknown-substitution-variable', 'PROMT'],
+			['empty-substitution', '${}']
+		]);
+	});
+
+	test('Leaves substitutions outside workflows and without a variables file alone', () => {
+		const compose = [
+			'services:',
+			'  web:',
+			'    image: nginx:${NGINX_TAG:-latest}',
+			'    environment:',
+			'      - PATH=${PATH}',
+			''
+		].join('\n');
+		assert.deepStrictEqual(lintText(compose, { variables: parseVariables('PROMPT: hi\n') }), []);
+
+		const workflow = 'nodes:\n  start:\n    type: agent\n    prompt: ${PROMPT} ${config.model}\n';
+		const findings = (options: Parameters<typeof lintText>[1]) => lintText(workflow, options)
+			.filter(error => error.code.includes('substitution'))
+			.map(error => workflow.slice(error.start, error.end));
+		assert.deepStrictEqual(findings({}), []);
+		assert.deepStrictEqual(findings({ variables: parseVariables('PROMPT: hi\n'), fileExists: () => false }), ['config.model']);
+	});
+});
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { findTemplateExpressions, isEmptyExpression } from '../templateExpressions';
+
+suite('Template Expressions Test Suite', () => {
+	test('Finds output references with their field spans', () => {
+		const source = '"{{ fetch.outputs.items }} and {{ loop.outputs[\'count\'] }} or {{ agent.outputs }}"';
+
+		const expressions = findTemplateExpressions(source, 10);
+
+		assert.strictEqual(expressions.length, 3);
+		const [items, count, whole] = expressions.map(expression => expression.references[0]);
+		assert.deepStrictEqual([items.node, items.field], ['fetch', 'items']);
+		assert.strictEqual(source.slice(items.fieldStart! - 10, items.fieldEnd! - 10), 'items');
+		assert.deepStrictEqual([count.node, count.field], ['loop', 'count']);
+		assert.strictEqual(source.slice(count.fieldStart! - 10, count.fieldEnd! - 10), 'count');
+		assert.deepStrictEqual([whole.node, whole.field], ['agent', undefined]);
+	});
+
+	test('Flags empty placeholders', () => {
+		const expressions = findTemplateExpressions('{{ }} {{x}}');
+
+		assert.deepStrictEqual(expressions.map(isEmptyExpression), [true, false]);
+	});
+});
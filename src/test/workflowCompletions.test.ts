@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { provideWorkflowCompletions } from '../workflowCompletions';
+
+// Completes at the `|` in the text
+function complete(textWithCursor: string) {
+	const offset = textWithCursor.indexOf('|');
+	const text = textWithCursor.slice(0, offset) + textWithCursor.slice(offset + 1);
+	const completions = provideWorkflowCompletions(text, offset);
+	return completions && {
+		typed: text.slice(completions.start, offset),
+		labels: completions.items.map(item => item.label)
+	};
+}
+
+suite('Workflow Completions Test Suite', () => {
+	const workflow = (nodeLines: string[]) => [
+		'nodes:',
+		'  answer:',
+		'    name: Answer',
+		'    type: agent',
+		'    inputs:',
+		'      agent_path: genor_agents.llm_agent.llm_agent.LLMAgent',
+		'    outputs: [response, usage]',
+		'  loop:',
+		'    type: iterator',
+		'    inputs:',
+		'      iterable: "{{ answer.outputs.response }}"',
+		'      subgraph:',
+		'        nodes:',
+		'          inner:',
+		'            type: agent',
+		'  review:',
+		...nodeLines,
+		''
+	].join('\n');
+
+	test('Completes node names of the current scope in next and then lists', () => {
+		assert.deepStrictEqual(complete(workflow(['    next: [answer, l|]'])), { typed: 'l', labels: ['answer', 'loop'] });
+		assert.deepStrictEqual(complete(workflow(['    next:', '      - |'])), { typed: '', labels: ['answer', 'loop'] });
+		assert.deepStrictEqual(complete(workflow([
+			'    type: ifelse',
+			'    conditions:',
+			'      - if: "{{ answer.outputs.usage }} > 0"',
+			'        then: |'
+		])), { typed: '', labels: ['answer', 'loop'] });
+
+		// Windows line endings
+		assert.deepStrictEqual(complete(workflow(['    next:', '      - |']).replace(/\n/g, '\r\n')), { typed: '', labels: ['answer', 'loop'] });
+	});
+
+	test('Completes declared outputs in template expressions', () => {
+		assert.deepStrictEqual(complete(workflow(['    prompt: "{{ answer.outputs.re|'])), { typed: 're', labels: ['response', 'usage'] });
+	});
+
+	test('Completes keys for the node type and agent', () => {
+		const nodeKeys = complete(workflow(['    type: agent', '    |']));
+		assert.deepStrictEqual(nodeKeys, { typed: '', labels: ['name', 'next', 'inputs', 'outputs'] });
+		assert.deepStrictEqual(complete(workflow(['    type: agent', '    |']).replace(/\n/g, '\r\n')), nodeKeys);
+
+		const kwargs = complete([
+			'nodes:',
+			'  answer:',
+			'    type: agent',
+			'    inputs:',
+			'      agent_path: genor_agents.llm_agent.llm_agent.LLMAgent',
+			'      init_kwargs:',
+			'        model_provider: openai',
+			'        hyp|',
+			''
+		].join('\n'));
+		assert.deepStrictEqual(kwargs, { typed: 'hyp', labels: ['hyperparameters', 'system_prompt'] });
+
+		const text = 'nodes:\n  answer:\n    type: agent\n    \n';
+		const snippet = provideWorkflowCompletions(text, text.length - 1)!.items
+			.find(item => item.label === 'inputs')!.snippet;
+		assert.strictEqual(snippet, 'inputs:\n\tagent_path: $1');
+	});
+
+	test('Completes type and agent_path values', () => {
+		assert.deepStrictEqual(complete(workflow(['    type: if|'])), {
+			typed: 'if',
+			labels: ['agent', 'ifelse', 'aggregator', 'iterator', 'while']
+		});
+
+		const agents = complete(workflow(['    type: agent', '    inputs:', '      agent_path: genor_agents.cu|']));
+		assert.strictEqual(agents!.typed, 'genor_agents.cu');
+		assert.ok(agents!.labels.includes('genor_agents.custom_code.code_agent.CodeAgent'));
+
+		// A key with the same spelling elsewhere is left alone
+		assert.strictEqual(complete(workflow(['    inputs:', '      next: |'])), undefined);
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { parseDocument, Node, YAMLMap } from 'yaml';
+import {
+	buildWorkflowGraph,
+	findCycles,
+	findDeadEndNodes,
+	findDefiningScopes,
+	findEntryNodes,
+	findUnreachableNodes,
+	resolveNode
+} from '../workflowGraph';
+
+function graphOf(text: string) {
+	const doc = parseDocument(text);
+	return buildWorkflowGraph(doc.get('nodes') as YAMLMap, doc.contents as Node);
+}
+
+suite('Workflow Graph Test Suite', () => {
+	test('Follows next and ifelse branches', () => {
+		const graph = graphOf([
+			'nodes:',
+			'  start: { next: [check] }',
+			'  check:',
+			'    type: ifelse',
+			'    conditions:',
+			'      - if: "{{ start.outputs.ok }}"',
+			'        then: [start]',
+			'      - else: [done]',
+			'  done: { name: Done }',
+			'  stray: { next: [done] }'
+		].join('\n'));
+
+		assert.deepStrictEqual(findCycles(graph).map(cycle => cycle.map(node => node.name)), [['start', 'check']]);
+		assert.deepStrictEqual(findEntryNodes(graph).map(node => node.name), ['stray']);
+		assert.deepStrictEqual(findUnreachableNodes(graph, findEntryNodes(graph)).map(node => node.name), ['start', 'check']);
+		assert.deepStrictEqual(findDeadEndNodes(graph), []);
+	});
+
+	test('Flags nodes that can never reach a terminal node', () => {
+		const graph = graphOf('nodes:\n  a: { next: [b] }\n  b: { next: [a] }\n  route: { type: ifelse }\n');
+
+		assert.deepStrictEqual(findDeadEndNodes(graph).map(node => node.name), ['a', 'b', 'route']);
+	});
+
+	test('Resolves names within their own subgraph first', () => {
+		const graph = graphOf([
+			'nodes:',
+			'  a: { next: [loop] }',
+			'  loop:',
+			'    type: iterator',
+			'    inputs:',
+			'      subgraph:',
+			'        nodes:',
+			'          a: { next: [b] }',
+			'          b: { name: B }'
+		].join('\n'));
+		const body = graph.nodes.get('loop')!.subgraph!;
+
+		assert.strictEqual(resolveNode(body, 'a')!.graph, body);
+		assert.strictEqual(resolveNode(body, 'loop')!.graph, graph);
+		assert.strictEqual(resolveNode(graph, 'b'), undefined);
+		assert.deepStrictEqual(findDefiningScopes(graph, 'b'), [body]);
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { indexWorkflow, positionAt, relatedSymbols, symbolAt } from '../workflowIndex';
+
+suite('Workflow Index Test Suite', () => {
+	const text = [
+		'nodes:',
+		'  fetch:',
+		'    type: agent',
+		'    next: [loop]',
+		'  loop:',
+		'    type: iterator',
+		'    inputs:',
+		'      items: "{{ fetch.outputs.items }}"',
+		'      subgraph:',
+		'        nodes:',
+		'          fetch:',
+		'            type: agent',
+		'            next:',
+		'              - "report"',
+		'          report:',
+		'            prompt: "{{ fetch.outputs.text }}"',
+		'    next: [report]',
+		'  report:',
+		'    type: agent',
+		'    name: fetch',
+		''
+	].join('\n');
+
+	test('Records node definitions and references with their spans', () => {
+		const index = indexWorkflow(text);
+		const symbols = index.symbols.map(symbol => [symbol.kind, text.slice(symbol.start, symbol.end)]);
+
+		assert.deepStrictEqual(symbols, [
+			['definition', 'fetch'],
+			['next', 'loop'],
+			['definition', 'loop'],
+			['output', 'fetch'],
+			['definition', 'fetch'],
+			['next', 'report'],
+			['definition', 'report'],
+			['output', 'fetch'],
+			['next', 'report'],
+			['definition', 'report']
+		]);
+		assert.deepStrictEqual(positionAt(index, index.symbols[5].start), { line: 13, character: 17 });
+	});
+
+	test('Resolves references within their own scope', () => {
+		const index = indexWorkflow(text);
+		const outerFetch = index.symbols[0];
+		const innerFetch = index.symbols[4];
+
+		// The nested reference points at the subgraph's own node
+		const nestedReference = symbolAt(index, text.indexOf('fetch.outputs.text'))!;
+		assert.strictEqual(nestedReference.definition, innerFetch);
+
+		// A value that happens to match a node name is not a symbol
+		assert.strictEqual(symbolAt(index, text.lastIndexOf('fetch')), undefined);
+
+		assert.deepStrictEqual(relatedSymbols(index, outerFetch).map(symbol => symbol.start), [
+			outerFetch.start,
+			text.indexOf('fetch.outputs.items')
+		]);
+	});
+});
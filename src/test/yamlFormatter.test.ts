@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { DEFAULT_KEY_ORDER, formatYamlText } from '../yamlFormatter';
+
+suite('YAML Formatter Test Suite', () => {
+	const options = { indent: 2, lineWidth: 20 };
+
+	test('Leaves code and prompt block scalars untouched', () => {
+		const text = [
+			'nodes:',
+			'  code_agent:',
+			'    type:   agent',
+			'    inputs:',
+			'      init_kwargs:',
+			'        code: >',
+			'          def main(x):',
+			'              return   x',
+			'        system_prompt: |-  # kept',
+			'            a very long prompt line that must not wrap',
+			'      messages:',
+			'        - content: |+',
+			'            keep',
+			'',
+			'        - >-',
+			'          folded   text',
+			''
+		].join('\n');
+
+		const formatted = formatYamlText(text, options);
+
+		assert.strictEqual(formatted, text.replace('type:   agent', 'type: agent'));
+	});
+
+	test('Shifts block scalar content when the indentation changes', () => {
+		const text = 'nodes:\n  a:\n    prompt: |\n      line one\n      line two\n';
+
+		const formatted = formatYamlText(text, { indent: 4, lineWidth: -1 });
+
+		assert.strictEqual(formatted, 'nodes:\n    a:\n        prompt: |\n          line one\n          line two\n');
+	});
+
+	test('Keeps the anchor and tag of a block scalar', () => {
+		const text = 'a: &x |\n  text\nb: *x\nc:\n  - !note >-\n    folded\n';
+
+		assert.strictEqual(formatYamlText(text, options), text);
+		assert.strictEqual(formatYamlText(text, { indent: 4, lineWidth: -1 }), 'a: &x |\n  text\nb: *x\nc:\n    - !note >-\n      folded\n');
+	});
+
+	test('Orders node keys canonically, keeping their comments', () => {
+		const text = [
+			'nodes:',
+			'  loop:',
+			'    next:',
+			'      - done',
+			'    # what to iterate',
+			'    inputs:',
+			'      subgraph:',
+			'        nodes:',
+			'          inner:',
+			'            type: agent  # inner type',
+			'            name: Inner',
+			'      iterable: "{{ source.outputs.items }}"',
+			'    type: iterator',
+			'    name: Loop',
+			''
+		].join('\n');
+
+		const formatted = formatYamlText(text, { indent: 2, lineWidth: -1, keyOrder: DEFAULT_KEY_ORDER });
+
+		assert.strictEqual(formatted, [
+			'nodes:',
+			'  loop:',
+			'    name: Loop',
+			'    type: iterator',
+			'    # what to iterate',
+			'    inputs:',
+			'      iterable: "{{ source.outputs.items }}"',
+			'      subgraph:',
+			'        nodes:',
+			'          inner:',
+			'            name: Inner',
+			'            type: agent # inner type',
+			'    next:',
+			'      - done',
+			''
+		].join('\n'));
+	});
+
+	test('Formats every document and keeps separators and directives', () => {
+		const text = '%YAML 1.2\n---\nnodes:\n  a:\n      next:   [b]\n...\n---\nnodes:\n  b:\n      name:   B\n';
+
+		const formatted = formatYamlText(text, { indent: 2, lineWidth: -1 });
+
+		assert.strictEqual(formatted, '%YAML 1.2\n---\nnodes:\n  a:\n    next: [ b ]\n...\n---\nnodes:\n  b:\n    name: B\n');
+	});
+});
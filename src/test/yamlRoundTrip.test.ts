@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { compareYamlSemantics, assertSemanticallyEqual, RoundTripError } from '../yamlRoundTrip';
+
+suite('YAML Round Trip Test Suite', () => {
+	test('Ignores layout-only changes', () => {
+		const original = 'nodes:\n  a:\n    next: [b, c]\n';
+		const reformatted = 'nodes:\n    a:\n        next:\n            - b\n            - c\n';
+
+		assert.deepStrictEqual(compareYamlSemantics(original, reformatted), []);
+	});
+
+	test('Reports changed, added and removed paths', () => {
+		const original = 'nodes:\n  a:\n    prompt: hello\n    next:\n      - b\n';
+		const modified = 'nodes:\n  a:\n    prompt: "@@BLOCK_SCALAR_0@@"\n    outputs: [x]\n';
+
+		assert.deepStrictEqual(compareYamlSemantics(original, modified).map(d => `${d.kind} ${d.path}`), [
+			'changed $.nodes.a.prompt',
+			'removed $.nodes.a.next',
+			'added $.nodes.a.outputs'
+		]);
+		assert.throws(() => assertSemanticallyEqual(original, modified), RoundTripError);
+	});
+});
@@ -0,0 +1,401 @@
+import { isMap, parseAllDocuments, Document, Node, YAMLMap } from 'yaml';
+import { AgentCatalog, BUILTIN_AGENTS } from './agentCatalog';
+import { BUILTIN_NODE_TYPES, FieldSchema, NodeTypeSchemas } from './nodeTypeSchema';
+import { buildWorkflowGraph, declaredOutputs, resolveNode, WorkflowGraph, WorkflowNode } from './workflowGraph';
+
+export type CompletionKind = 'node' | 'output' | 'field' | 'nodeType' | 'agent';
+
+export interface WorkflowCompletion {
+    label: string;
+    kind: CompletionKind;
+    detail?: string;
+    /** Markdown shown next to the list */
+    documentation?: string;
+    /** What to insert, in VS Code snippet syntax; the label when undefined */
+    snippet?: string;
+}
+
+/**
+ * Completions for a position, replacing the text from `start` up to the cursor.
+ */
+export interface WorkflowCompletions {
+    start: number;
+    items: WorkflowCompletion[];
+}
+
+/**
+ * What to complete against. Anything left out falls back to the built-in definitions.
+ */
+export interface CompletionOptions {
+    nodeTypes?: NodeTypeSchemas;
+    agents?: AgentCatalog;
+}
+
+// A key line, or a list item with or without a key of its own
+interface LineKey {
+    indent: number;
+    /** Column of the `-` for list items */
+    dashIndent?: number;
+    key?: string;
+}
+
+const KEY_LINE = /^( *)(- +)?(?:(["']?)([^\s"'#:\-][^"'#:]*?|-[^\s"'#:][^"'#:]*?)\3[ \t]*:(?:[ \t]|$))?/;
+
+// Template expressions ending in `node.outputs.` and whatever field is typed
+const OUTPUT_FIELD_PREFIX = /\{\{[^{}]*?\b([A-Za-z_][\w-]*)\.outputs\.(\w*)$/;
+
+// Keys whose values are node names
+const TARGET_KEYS = ['next', 'then', 'else'];
+
+function parseLine(line: string): LineKey | undefined {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) {
+        return undefined;
+    }
+    const match = KEY_LINE.exec(line)!;
+    if (match[2]) {
+        return { indent: match[1].length + match[2].length, dashIndent: match[1].length, key: match[4] };
+    }
+    return { indent: match[1].length, key: match[4] };
+}
+
+/**
+ * The keys of the maps containing a line, outermost first, with `-` for list
+ * items. Works line by line, so the text does not have to parse.
+ * @param sameIndent Whether a key at the line's own indentation can contain
+ *   it, as for a `- item` written level with its list's key
+ */
+function ancestorKeys(lines: string[], lineIndex: number, indent: number, sameIndent: boolean): string[] {
+    const path: string[] = [];
+    let limit = indent;
+    let allowEqual = sameIndent;
+
+    for (let i = lineIndex - 1; i >= 0 && (limit > 0 || allowEqual); i--) {
+        if (/^(---|\.\.\.)(\s|$)/.test(lines[i])) {
+            break;
+        }
+        const line = parseLine(lines[i]);
+        if (!line) {
+            continue;
+        }
+
+        const encloses = (column: number) => column < limit || (allowEqual && column === limit);
+        if (line.key !== undefined && encloses(line.indent)) {
+            path.push(line.key);
+            limit = line.indent;
+            allowEqual = false;
+        }
+        if (line.dashIndent !== undefined && line.dashIndent < limit) {
+            path.push('-');
+            limit = line.dashIndent;
+            // The list's key may sit at the same column as its `-`
+            allowEqual = true;
+        }
+    }
+
+    return path.reverse();
+}
+
+// Keys already set in the map the line belongs to, which ends at anything
+// less indented; a list item's map starts at its `-`
+function siblingKeys(lines: string[], lineIndex: number, indent: number): Set<string> {
+    const keys = new Set<string>();
+
+    for (let i = lineIndex - 1; i >= 0; i--) {
+        const line = parseLine(lines[i]);
+        if (!line) {
+            continue;
+        }
+        if (line.indent === indent && line.key !== undefined) {
+            keys.add(line.key);
+        }
+        if ((line.dashIndent ?? line.indent) < indent) {
+            break;
+        }
+    }
+
+    for (let i = lineIndex + 1; i < lines.length; i++) {
+        const line = parseLine(lines[i]);
+        if (!line) {
+            continue;
+        }
+        if ((line.dashIndent ?? line.indent) < indent) {
+            break;
+        }
+        if (line.indent === indent && line.key !== undefined) {
+            keys.add(line.key);
+        }
+    }
+
+    return keys;
+}
+
+/**
+ * The scope and node a key path points into: the path runs through `nodes`
+ * maps and `inputs.subgraph.nodes` of loop nodes.
+ */
+function locateNode(doc: Document.Parsed, path: string[]): { graph: WorkflowGraph; node?: WorkflowNode; fieldPath: string[] } | undefined {
+    const nodes = isMap(doc.contents) ? doc.contents.get('nodes') : undefined;
+    if (path[0] !== 'nodes' || !isMap(nodes)) {
+        return undefined;
+    }
+
+    const nodesPair = (doc.contents as YAMLMap).items.find(pair => pair.value === nodes)!;
+    let graph = buildWorkflowGraph(nodes, nodesPair.key as Node);
+    let i = 1;
+    while (i < path.length) {
+        const node = graph.nodes.get(path[i]);
+        const intoSubgraph = path[i + 1] === 'inputs' && path[i + 2] === 'subgraph' && path[i + 3] === 'nodes';
+        if (node?.subgraph && intoSubgraph) {
+            graph = node.subgraph;
+            i += 4;
+        } else {
+            return { graph, node, fieldPath: path.slice(i + 1) };
+        }
+    }
+    return { graph, fieldPath: [] };
+}
+
+/**
+ * The schema of the map at a path inside a node, using the agent catalog for
+ * an agent's kwargs.
+ */
+function schemaAt(node: WorkflowNode, fieldPath: string[], options: Required<CompletionOptions>): FieldSchema | undefined {
+    let schema: FieldSchema | undefined = options.nodeTypes[node.type ?? ''];
+    const agentPath = node.value?.getIn(['inputs', 'agent_path']);
+    const agent = typeof agentPath === 'string' ? options.agents[agentPath] : undefined;
+
+    fieldPath.forEach((key, depth) => {
+        if (agent && depth === 1 && fieldPath[0] === 'inputs' && (key === 'init_kwargs' || key === 'call_kwargs')) {
+            schema = key === 'init_kwargs' ? agent.initKwargs : agent.callKwargs;
+        } else if (key === '-') {
+            schema = schema?.items;
+        } else {
+            schema = schema?.fields?.[key];
+        }
+    });
+
+    // So the kwargs snippets stub out what this agent requires
+    if (agent && schema?.fields && fieldPath.length === 1 && fieldPath[0] === 'inputs') {
+        const fields = schema.fields;
+        schema = {
+            ...schema,
+            fields: {
+                ...fields,
+                init_kwargs: { ...fields.init_kwargs, ...agent.initKwargs },
+                call_kwargs: { ...fields.call_kwargs, ...agent.callKwargs }
+            }
+        };
+    }
+    return schema;
+}
+
+function describeTypes(schema: FieldSchema): string {
+    return `${schema.type ? schema.type.join(' | ') : 'any'}${schema.required ? ', required' : ''}`;
+}
+
+/**
+ * A snippet setting a field to a stub of its type; objects get their
+ * required fields filled in, one tab stop each.
+ */
+function fieldSnippet(name: string, schema: FieldSchema, stops = { next: 1 }, depth = 0): string {
+    const indent = '\t'.repeat(depth + 1);
+    const types = schema.type ?? [];
+    const required = Object.entries(schema.fields ?? {}).filter(([, field]) => field.required);
+
+    if (types.length === 1 && types[0] === 'object') {
+        if (required.length === 0) {
+            return `${name}:\n${indent}$${stops.next++}`;
+        }
+        return `${name}:` + required
+            .map(([field, fieldSchema]) => `\n${indent}${fieldSnippet(field, fieldSchema, stops, depth + 1)}`)
+            .join('');
+    }
+    if (types.length === 1 && types[0] === 'array') {
+        return `${name}:\n${indent}- $${stops.next++}`;
+    }
+    if (types.length === 1 && types[0] === 'boolean') {
+        return `${name}: \${${stops.next++}|true,false|}`;
+    }
+    return `${name}: $${stops.next++}`;
+}
+
+function fieldCompletions(schema: FieldSchema, existing: Set<string>): WorkflowCompletion[] {
+    return Object.entries(schema.fields ?? {})
+        .filter(([name]) => !existing.has(name))
+        .map(([name, field]) => {
+            const nested = Object.keys(field.fields ?? {});
+            return {
+                label: name,
+                kind: 'field',
+                detail: describeTypes(field),
+                documentation: nested.length > 0 ? `Fields: ${nested.map(key => `\`${key}\``).join(', ')}` : undefined,
+                snippet: fieldSnippet(name, field)
+            };
+        });
+}
+
+function nodeTypeCompletions(options: Required<CompletionOptions>): WorkflowCompletion[] {
+    return Object.entries(options.nodeTypes).map(([type, schema]) => {
+        const required = Object.entries(schema.fields ?? {})
+            .filter(([, field]) => field.required)
+            .map(([field]) => `\`${field}\``);
+        return {
+            label: type,
+            kind: 'nodeType',
+            detail: 'Node type',
+            documentation: required.length > 0 ? `Required fields: ${required.join(', ')}` : undefined
+        };
+    });
+}
+
+function agentCompletions(options: Required<CompletionOptions>): WorkflowCompletion[] {
+    return Object.entries(options.agents).map(([agentPath, agent]) => {
+        const kwargs = (schema: FieldSchema) => {
+            const names = Object.keys(schema.fields ?? {}).map(name => `\`${name}\``);
+            if (schema.additionalFields) {
+                names.push('any others');
+            }
+            return names.length > 0 ? names.join(', ') : 'none';
+        };
+        return {
+            label: agentPath,
+            kind: 'agent',
+            detail: agentPath.split('.').pop(),
+            documentation: [
+                `**init_kwargs**: ${kwargs(agent.initKwargs)}`,
+                `**call_kwargs**: ${kwargs(agent.callKwargs)}`,
+                `**outputs**: ${agent.outputs ? agent.outputs.map(output => `\`${output}\``).join(', ') : 'user-defined'}`
+            ].join('\n\n')
+        };
+    });
+}
+
+function nodeCompletions(graph: WorkflowGraph, current?: WorkflowNode): WorkflowCompletion[] {
+    return [...graph.nodes.values()]
+        .filter(node => node !== current)
+        .map(node => {
+            const name = node.value?.get('name');
+            return {
+                label: node.name,
+                kind: 'node',
+                detail: node.type ? `${node.type} node` : 'Node',
+                documentation: typeof name === 'string' ? name : undefined
+            };
+        });
+}
+
+// Parses the text with the cursor's line blanked out, so a half-typed line does not break it
+function documentAt(text: string, lineStart: number, lineEnd: number): Document.Parsed | undefined {
+    const blanked = text.slice(0, lineStart) + ' '.repeat(lineEnd - lineStart) + text.slice(lineEnd);
+    let found: Document.Parsed | undefined;
+    try {
+        parseAllDocuments(blanked, { uniqueKeys: false }).forEach(doc => {
+            if (!found || doc.range[0] <= lineStart) {
+                found = doc;
+            }
+        });
+    } catch {
+        return undefined;
+    }
+    return found;
+}
+
+/**
+ * Completions for the cursor at `offset`, depending on where it is: node
+ * names in `next`/`then`/`else`, declared outputs after `{{ node.outputs.`,
+ * the keys a node's type and agent accept, `type` values and `agent_path`s.
+ * Undefined when nothing applies.
+ */
+export function provideWorkflowCompletions(text: string, offset: number, options: CompletionOptions = {}): WorkflowCompletions | undefined {
+    const resolvedOptions: Required<CompletionOptions> = {
+        nodeTypes: options.nodeTypes ?? BUILTIN_NODE_TYPES,
+        agents: options.agents ?? BUILTIN_AGENTS
+    };
+
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const newline = text.indexOf('\n', offset);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const prefix = text.slice(lineStart, offset);
+    const lines = text.split(/\r?\n/);
+    const lineIndex = text.slice(0, lineStart).split('\n').length - 1;
+
+    const doc = documentAt(text, lineStart, lineEnd);
+    const located = (path: string[]) => doc ? locateNode(doc, path) : undefined;
+
+    const outputPrefix = OUTPUT_FIELD_PREFIX.exec(prefix);
+    if (outputPrefix) {
+        const location = located(ancestorKeys(lines, lineIndex, prefix.search(/\S|$/), false));
+        const producer = location ? resolveNode(location.graph, outputPrefix[1]) : undefined;
+        const outputs = producer ? declaredOutputs(producer.node) ?? [] : [];
+        return {
+            start: offset - outputPrefix[2].length,
+            items: outputs.map(output => ({ label: output, kind: 'output', detail: `Output of "${outputPrefix[1]}"` }))
+        };
+    }
+
+    // `key: value`, possibly as the first key of a list item
+    const keyValue = /^( *)(- +)?([\w-]+)[ \t]*:[ \t]*(.*)$/.exec(prefix);
+    if (keyValue) {
+        const indent = keyValue[1].length + (keyValue[2] ?? '').length;
+        const key = keyValue[3];
+        const value = keyValue[4];
+        const path = ancestorKeys(lines, lineIndex, indent, false);
+        if (keyValue[2]) {
+            path.push('-');
+        }
+        const location = located(path);
+        if (!location?.node) {
+            return undefined;
+        }
+
+        const fieldPath = location.fieldPath.join('.');
+        if (TARGET_KEYS.includes(key) && (key === 'next' ? fieldPath === '' : fieldPath === 'conditions.-')) {
+            const word = /^(?:\[(?:[^\]]*,)?)?[ \t]*([\w-]*)$/.exec(value);
+            return word ? { start: offset - word[1].length, items: nodeCompletions(location.graph, location.node) } : undefined;
+        }
+        if (key === 'type' && fieldPath === '' && /^[\w-]*$/.test(value)) {
+            return { start: offset - value.length, items: nodeTypeCompletions(resolvedOptions) };
+        }
+        if (key === 'agent_path' && fieldPath === 'inputs' && /^[\w.]*$/.test(value)) {
+            return { start: offset - value.length, items: agentCompletions(resolvedOptions) };
+        }
+        return undefined;
+    }
+
+    // A `- name` item of a next/then/else list
+    const listItem = /^( *)-[ \t]*([\w-]*)$/.exec(prefix);
+    if (listItem) {
+        const path = ancestorKeys(lines, lineIndex, listItem[1].length, true);
+        const location = located(path);
+        const fieldPath = location?.fieldPath.join('.');
+        if (location?.node && (fieldPath === 'next' || fieldPath === 'conditions.-.then' || fieldPath === 'conditions.-.else')) {
+            return { start: offset - listItem[2].length, items: nodeCompletions(location.graph, location.node) };
+        }
+        return undefined;
+    }
+
+    // A key being typed
+    const keyPrefix = /^( *)([\w-]*)$/.exec(prefix);
+    if (keyPrefix) {
+        const indent = keyPrefix[1].length;
+        const location = located(ancestorKeys(lines, lineIndex, indent, false));
+        if (!location?.node) {
+            return undefined;
+        }
+
+        const existing = siblingKeys(lines, lineIndex, indent);
+        const schema = schemaAt(location.node, location.fieldPath, resolvedOptions);
+        if (location.fieldPath.length === 0 && !location.node.type && !existing.has('type')) {
+            // Without a type there is nothing else to go by
+            const types = Object.keys(resolvedOptions.nodeTypes).join(',');
+            return {
+                start: offset - keyPrefix[2].length,
+                items: [{ label: 'type', kind: 'field', detail: 'string, required', snippet: `type: \${1|${types}|}` }]
+            };
+        }
+        return schema ? { start: offset - keyPrefix[2].length, items: fieldCompletions(schema, existing) } : undefined;
+    }
+
+    return undefined;
+}
+
@@ -0,0 +1,17 @@
+import * as vscode from 'vscode';
+import { isWorkflowPath } from './lintEngine';
+
+/**
+ * Whether a YAML file should be treated as a GenOr workflow (see `isWorkflowPath`).
+ */
+export function isWorkflowFile(fileUri: vscode.Uri): boolean {
+    return isWorkflowPath(fileUri.fsPath);
+}
+
+/**
+ * Find all workflow YAML files in the workspace
+ */
+export async function findWorkflowFiles(): Promise<vscode.Uri[]> {
+    const allYamlFiles = await vscode.workspace.findFiles('**/*.{yml,yaml}', '**/node_modules/**');
+    return allYamlFiles.filter(isWorkflowFile);
+}
@@ -0,0 +1,378 @@
+import { isMap, isScalar, isSeq, Node, Pair, Scalar, YAMLMap } from 'yaml';
+
+/**
+ * A `next` entry or `ifelse` branch target pointing from one node to another.
+ */
+export interface NodeEdge {
+    target: string;
+    kind: 'next' | 'then';
+    /** The scalar holding the target name, for diagnostics */
+    reference: Scalar;
+}
+
+export interface WorkflowNode {
+    name: string;
+    key: Node;
+    value: YAMLMap | null;
+    type?: string;
+    edges: NodeEdge[];
+    /** Nodes of an iterator/while `inputs.subgraph` */
+    subgraph?: WorkflowGraph;
+}
+
+/**
+ * The nodes of one scope: a workflow's top-level `nodes` or a loop's subgraph.
+ */
+export interface WorkflowGraph {
+    nodes: Map<string, WorkflowNode>;
+    /** Node owning this subgraph; undefined for the top-level workflow */
+    owner?: WorkflowNode;
+    /** Scope the owner node belongs to */
+    parent?: WorkflowGraph;
+    /** Where scope-level findings (such as a missing entry) are reported */
+    location: Node;
+}
+
+// Node types whose subgraph is a loop body
+const LOOP_TYPES = ['iterator', 'while'];
+
+function keyName(pair: Pair): string {
+    return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+}
+
+function collectTargets(value: unknown, kind: NodeEdge['kind'], edges: NodeEdge[]) {
+    const items = isSeq(value) ? value.items : [value];
+    items.forEach(item => {
+        if (isScalar(item) && typeof item.value === 'string' && item.value.trim() !== '') {
+            edges.push({ target: item.value, kind, reference: item });
+        }
+    });
+}
+
+function collectEdges(node: YAMLMap): NodeEdge[] {
+    const edges: NodeEdge[] = [];
+
+    collectTargets(node.get('next', true), 'next', edges);
+
+    // ifelse branches: `then` under if/elif, and the value of `else`
+    const conditions = node.get('conditions');
+    if (isSeq(conditions)) {
+        conditions.items.forEach(condition => {
+            if (isMap(condition)) {
+                collectTargets(condition.get('then', true), 'then', edges);
+                collectTargets(condition.get('else', true), 'then', edges);
+            }
+        });
+    }
+
+    return edges;
+}
+
+/**
+ * Builds the graph for a `nodes` map, recursing into iterator/while subgraphs.
+ */
+export function buildWorkflowGraph(
+    nodes: YAMLMap,
+    location: Node,
+    owner?: WorkflowNode,
+    parent?: WorkflowGraph
+): WorkflowGraph {
+    const graph: WorkflowGraph = { nodes: new Map(), owner, parent, location };
+
+    for (const pair of nodes.items) {
+        const value = isMap(pair.value) ? pair.value : null;
+        const type = value ? value.get('type') : undefined;
+
+        const workflowNode: WorkflowNode = {
+            name: keyName(pair),
+            key: pair.key as Node,
+            value,
+            type: type ? String(type).toLowerCase() : undefined,
+            edges: value ? collectEdges(value) : []
+        };
+
+        const inputs = value ? value.get('inputs') : undefined;
+        const subgraph = isMap(inputs) ? inputs.get('subgraph') : undefined;
+        const nestedNodes = isMap(subgraph) ? subgraph.get('nodes') : undefined;
+        if (isMap(nestedNodes)) {
+            const nestedPair = (subgraph as YAMLMap).items.find(item => keyName(item) === 'nodes')!;
+            workflowNode.subgraph = buildWorkflowGraph(nestedNodes, nestedPair.key as Node, workflowNode, graph);
+        }
+
+        graph.nodes.set(workflowNode.name, workflowNode);
+    }
+
+    return graph;
+}
+
+/**
+ * Collects the string scalars of a node, leaving out its subgraph's nodes.
+ */
+export function collectStringScalars(value: unknown, scalars: Scalar[]): void {
+    if (isScalar(value)) {
+        if (typeof value.value === 'string') {
+            scalars.push(value);
+        }
+    } else if (isSeq(value)) {
+        value.items.forEach(item => collectStringScalars(item, scalars));
+    } else if (isMap(value)) {
+        value.items.forEach(pair => {
+            if (keyName(pair) !== 'subgraph') {
+                collectStringScalars(pair.value, scalars);
+            }
+        });
+    }
+}
+
+/**
+ * Whether the graph is the body of an iterator or while node, where repeating
+ * is expected.
+ */
+export function isLoopBody(graph: WorkflowGraph): boolean {
+    return graph.owner !== undefined && LOOP_TYPES.includes(graph.owner.type ?? '');
+}
+
+/**
+ * Looks a node name up in the given scope, then in each enclosing scope.
+ */
+export function resolveNode(graph: WorkflowGraph, name: string): { graph: WorkflowGraph; node: WorkflowNode } | undefined {
+    for (let scope: WorkflowGraph | undefined = graph; scope; scope = scope.parent) {
+        const node = scope.nodes.get(name);
+        if (node) {
+            return { graph: scope, node };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Output names a node declares: the items of an `outputs` list, or for an
+ * aggregator the `param_name` of each entry. Undefined when the node has no
+ * readable `outputs`.
+ */
+export function declaredOutputs(node: WorkflowNode): string[] | undefined {
+    const outputs = node.value ? node.value.get('outputs') : undefined;
+
+    if (isSeq(outputs)) {
+        return outputs.items
+            .filter((item): item is Scalar => isScalar(item) && item.value !== null)
+            .map(item => String(item.value));
+    }
+
+    if (isMap(outputs)) {
+        if (node.type === 'aggregator') {
+            return outputs.items
+                .map(pair => isMap(pair.value) ? pair.value.get('param_name') : undefined)
+                .filter(name => name !== undefined && name !== null)
+                .map(name => String(name));
+        }
+        return outputs.items.map(keyName);
+    }
+
+    return undefined;
+}
+
+/**
+ * Every scope of the workflow that defines a node with the given name,
+ * including subgraphs the name is not visible from.
+ */
+export function findDefiningScopes(graph: WorkflowGraph, name: string): WorkflowGraph[] {
+    let root = graph;
+    while (root.parent) {
+        root = root.parent;
+    }
+
+    const scopes: WorkflowGraph[] = [];
+    const visit = (scope: WorkflowGraph) => {
+        if (scope.nodes.has(name)) {
+            scopes.push(scope);
+        }
+        scope.nodes.forEach(node => {
+            if (node.subgraph) {
+                visit(node.subgraph);
+            }
+        });
+    };
+    visit(root);
+
+    return scopes;
+}
+
+// Targets of a node that exist in the same scope
+function successors(graph: WorkflowGraph, node: WorkflowNode): WorkflowNode[] {
+    return node.edges
+        .map(edge => graph.nodes.get(edge.target))
+        .filter((target): target is WorkflowNode => target !== undefined);
+}
+
+/**
+ * Finds every cycle (strongly connected component with a loop) using Tarjan's algorithm.
+ * Each cycle is listed in edge order starting from its first node in the file.
+ */
+export function findCycles(graph: WorkflowGraph): WorkflowNode[][] {
+    const index = new Map<WorkflowNode, number>();
+    const lowLink = new Map<WorkflowNode, number>();
+    const onStack = new Set<WorkflowNode>();
+    const stack: WorkflowNode[] = [];
+    const cycles: WorkflowNode[][] = [];
+    let counter = 0;
+
+    const visit = (node: WorkflowNode) => {
+        index.set(node, counter);
+        lowLink.set(node, counter);
+        counter++;
+        stack.push(node);
+        onStack.add(node);
+
+        for (const next of successors(graph, node)) {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+            }
+        }
+
+        if (lowLink.get(node) === index.get(node)) {
+            const component: WorkflowNode[] = [];
+            let member: WorkflowNode;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+
+            const selfLoop = component.length === 1 && successors(graph, node).includes(node);
+            if (component.length > 1 || selfLoop) {
+                cycles.push(orderCycle(graph, component));
+            }
+        }
+    };
+
+    graph.nodes.forEach(node => {
+        if (!index.has(node)) {
+            visit(node);
+        }
+    });
+
+    return cycles;
+}
+
+// Lists a component's nodes along its edges, starting from the first one in the file
+function orderCycle(graph: WorkflowGraph, component: WorkflowNode[]): WorkflowNode[] {
+    const members = new Set(component);
+    const first = [...graph.nodes.values()].find(node => members.has(node))!;
+    const ordered = [first];
+    const seen = new Set(ordered);
+
+    let current = first;
+    while (true) {
+        const next = successors(graph, current).find(node => members.has(node) && !seen.has(node));
+        if (!next) {
+            break;
+        }
+        ordered.push(next);
+        seen.add(next);
+        current = next;
+    }
+
+    // Components are not always a single simple cycle; keep any remaining members
+    component.forEach(node => {
+        if (!seen.has(node)) {
+            ordered.push(node);
+        }
+    });
+    return ordered;
+}
+
+/**
+ * Nodes no other node in the same scope points to.
+ */
+export function findEntryNodes(graph: WorkflowGraph): WorkflowNode[] {
+    const targeted = new Set<WorkflowNode>();
+    graph.nodes.forEach(node => {
+        successors(graph, node).forEach(next => {
+            if (next !== node) {
+                targeted.add(next);
+            }
+        });
+    });
+
+    return [...graph.nodes.values()].filter(node => !targeted.has(node));
+}
+
+/**
+ * Nodes that cannot be reached by following edges from any of the entry nodes.
+ */
+export function findUnreachableNodes(graph: WorkflowGraph, entries: WorkflowNode[]): WorkflowNode[] {
+    const reached = new Set<WorkflowNode>();
+    const queue = [...entries];
+
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        if (reached.has(node)) {
+            continue;
+        }
+        reached.add(node);
+        queue.push(...successors(graph, node));
+    }
+
+    return [...graph.nodes.values()].filter(node => !reached.has(node));
+}
+
+/**
+ * Every node with a path to the given node in the same scope.
+ */
+export function findUpstreamNodes(graph: WorkflowGraph, node: WorkflowNode): Set<WorkflowNode> {
+    const upstream = new Set<WorkflowNode>();
+    const queue = [node];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        graph.nodes.forEach(candidate => {
+            if (!upstream.has(candidate) && successors(graph, candidate).includes(current)) {
+                upstream.add(candidate);
+                queue.push(candidate);
+            }
+        });
+    }
+
+    return upstream;
+}
+
+/**
+ * A terminal node ends the flow: it has no edges within its scope and is not
+ * an `ifelse`, which always has to route somewhere.
+ */
+export function isTerminalNode(graph: WorkflowGraph, node: WorkflowNode): boolean {
+    return node.type !== 'ifelse' && successors(graph, node).length === 0;
+}
+
+/**
+ * Non-terminal nodes from which no terminal node can be reached, e.g. an
+ * `ifelse` without branches or nodes that only route back into a cycle.
+ */
+export function findDeadEndNodes(graph: WorkflowGraph): WorkflowNode[] {
+    // Walk edges backwards from every terminal node
+    const predecessors = new Map<WorkflowNode, WorkflowNode[]>();
+    graph.nodes.forEach(node => {
+        successors(graph, node).forEach(next => {
+            const list = predecessors.get(next) || [];
+            list.push(node);
+            predecessors.set(next, list);
+        });
+    });
+
+    const leadsToExit = new Set<WorkflowNode>();
+    const queue = [...graph.nodes.values()].filter(node => isTerminalNode(graph, node));
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        if (leadsToExit.has(node)) {
+            continue;
+        }
+        leadsToExit.add(node);
+        queue.push(...(predecessors.get(node) || []));
+    }
+
+    return [...graph.nodes.values()].filter(node => !leadsToExit.has(node));
+}
@@ -0,0 +1,180 @@
+import { isMap, isScalar, parseAllDocuments, Node, Scalar, YAMLMap } from 'yaml';
+import { buildWorkflowGraph, collectStringScalars, resolveNode, WorkflowGraph, WorkflowNode } from './workflowGraph';
+import { findTemplateExpressions } from './templateExpressions';
+
+/**
+ * Where a node name appears: its key under `nodes`, a `next` entry, an
+ * `ifelse` branch target, a `{{ node.outputs }}` template reference or a
+ * source key in an aggregator's `outputs`.
+ */
+export type NodeSymbolKind = 'definition' | 'next' | 'then' | 'output' | 'aggregator';
+
+/**
+ * A node name in a workflow file. Offsets are absolute positions in the text
+ * and cover the name only.
+ */
+export interface NodeSymbol {
+    name: string;
+    kind: NodeSymbolKind;
+    start: number;
+    end: number;
+    /** For references, the definition the name resolves to from its own scope in the same file */
+    definition?: NodeSymbol;
+    /** For definitions, which `nodes` map of the file the node belongs to */
+    scope?: number;
+}
+
+/**
+ * The node symbols of a workflow file, in document order.
+ */
+export interface WorkflowSymbols {
+    symbols: NodeSymbol[];
+    /** Start offset of every line, to turn offsets into positions */
+    lineStarts: number[];
+}
+
+// The name inside a scalar's source, skipping any quote before it
+function nameSpan(text: string, scalar: Scalar, name: string): { start: number; end: number } | undefined {
+    if (!scalar.range) {
+        return undefined;
+    }
+    const offset = text.slice(scalar.range[0], scalar.range[1]).indexOf(name);
+    const start = scalar.range[0] + Math.max(0, offset);
+    return { start, end: start + name.length };
+}
+
+// What is collected while walking the scopes of one file
+interface IndexState {
+    text: string;
+    symbols: NodeSymbol[];
+    definitions: Map<WorkflowNode, NodeSymbol>;
+    scopeCount: number;
+}
+
+function indexGraph(graph: WorkflowGraph, state: IndexState) {
+    const { text, symbols, definitions } = state;
+    const scope = state.scopeCount++;
+
+    graph.nodes.forEach(node => {
+        const span = isScalar(node.key) ? nameSpan(text, node.key, node.name) : undefined;
+        if (span) {
+            const definition: NodeSymbol = { name: node.name, kind: 'definition', ...span, scope };
+            definitions.set(node, definition);
+            symbols.push(definition);
+        }
+    });
+
+    // References are resolved once every definition of the enclosing scopes is known
+    graph.nodes.forEach(node => {
+        const reference = (name: string, kind: NodeSymbolKind, span: { start: number; end: number }) => {
+            const resolved = resolveNode(graph, name);
+            symbols.push({ name, kind, ...span, definition: resolved ? definitions.get(resolved.node) : undefined });
+        };
+
+        node.edges.forEach(edge => {
+            const span = nameSpan(text, edge.reference, edge.target);
+            if (span) {
+                reference(edge.target, edge.kind, span);
+            }
+        });
+
+        // An aggregator's outputs are keyed by the nodes they collect from
+        const outputs = node.value?.get('outputs', true);
+        if (node.type === 'aggregator' && isMap(outputs)) {
+            outputs.items.forEach(pair => {
+                const span = isScalar(pair.key) ? nameSpan(text, pair.key, String(pair.key.value)) : undefined;
+                if (span) {
+                    reference(String((pair.key as Scalar).value), 'aggregator', span);
+                }
+            });
+        }
+
+        const scalars: Scalar[] = [];
+        collectStringScalars(node.value, scalars);
+        scalars.forEach(scalar => {
+            if (!scalar.range) {
+                return;
+            }
+            const source = text.slice(scalar.range[0], scalar.range[1]);
+            findTemplateExpressions(source, scalar.range[0]).forEach(expression => {
+                expression.references.forEach(output => {
+                    reference(output.node, 'output', { start: output.start, end: output.start + output.node.length });
+                });
+            });
+        });
+
+        if (node.subgraph) {
+            indexGraph(node.subgraph, state);
+        }
+    });
+}
+
+/**
+ * Parses a workflow file and records where each node is defined and
+ * referenced. Every `---` separated document is indexed as its own workflow;
+ * what cannot be parsed is left out.
+ */
+export function indexWorkflow(text: string): WorkflowSymbols {
+    const state: IndexState = { text, symbols: [], definitions: new Map(), scopeCount: 0 };
+
+    try {
+        for (const doc of parseAllDocuments(text, { uniqueKeys: false })) {
+            const contents = doc.contents;
+            const nodes = isMap(contents) ? contents.get('nodes') : undefined;
+            if (!isMap(nodes)) {
+                continue;
+            }
+            const nodesPair = (contents as YAMLMap).items.find(pair => pair.value === nodes)!;
+            indexGraph(buildWorkflowGraph(nodes, nodesPair.key as Node), state);
+        }
+    } catch {
+        // Text the parser gives up on has no symbols
+    }
+
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+
+    return { symbols: state.symbols.sort((a, b) => a.start - b.start), lineStarts };
+}
+
+/**
+ * The symbol covering an offset, including an offset just after its name.
+ */
+export function symbolAt(index: WorkflowSymbols, offset: number): NodeSymbol | undefined {
+    return index.symbols.find(symbol => offset >= symbol.start && offset <= symbol.end);
+}
+
+/**
+ * Zero-based line and character of an offset.
+ */
+export function positionAt(index: WorkflowSymbols, offset: number): { line: number; character: number } {
+    let low = 0;
+    let high = index.lineStarts.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (index.lineStarts[middle] <= offset) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return { line: low, character: offset - index.lineStarts[low] };
+}
+
+/**
+ * The symbols of a file that refer to the same node as the given one: its
+ * definition and every reference resolving to it, or for a name that does
+ * not resolve, the other unresolved uses of that name.
+ */
+export function relatedSymbols(index: WorkflowSymbols, symbol: NodeSymbol): NodeSymbol[] {
+    const definition = symbol.kind === 'definition' ? symbol : symbol.definition;
+    if (!definition) {
+        return index.symbols.filter(candidate =>
+            candidate.name === symbol.name && candidate.kind !== 'definition' && !candidate.definition);
+    }
+    return index.symbols.filter(candidate => candidate === definition || candidate.definition === definition);
+}
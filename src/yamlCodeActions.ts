@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { isScalar, parseAllDocuments, visit, Node, Scalar } from 'yaml';
+import { AgentTemplate, agentTemplates, TemplateManager } from './agentTemplates';
+import { TextChange } from './lineDiff';
+import { fixAllChanges, fixChanges, LintFix, nodeStubChanges } from './lintFixes';
+import { getLintFixes, LintFixEntry } from './yamlLinter';
+
+function getEol(document: vscode.TextDocument): string {
+    return document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+}
+
+// The node key of a template, e.g. "llm_agent" for the LLM Agent template
+function templateKey(template: AgentTemplate): string {
+    return template.template.split('\n')[0].replace(/:\s*$/, '').trim();
+}
+
+/**
+ * Picks the template whose node key shares its first word with the node
+ * name (`llm` for `summarize_llm`), falling back to the first template.
+ */
+function preferredTemplate(name: string, templates: AgentTemplate[]): AgentTemplate {
+    const lowerName = name.toLowerCase();
+    return templates.find(template => {
+        const keyword = templateKey(template).split('_')[0].toLowerCase();
+        return keyword !== '' && lowerName.includes(keyword);
+    }) ?? templates[0];
+}
+
+function describeFix(fix: LintFix): string {
+    switch (fix.kind) {
+        case 'insertField':
+            return `Add missing field "${fix.field}"`;
+        case 'removeItem':
+            return `Remove empty '${fix.field}' item`;
+        case 'replaceIndentation':
+            return 'Replace mixed indentation with spaces';
+        case 'createNode':
+            return `Create node "${fix.name}"`;
+    }
+}
+
+function changesFor(fix: LintFix, text: string, template?: AgentTemplate): TextChange[] {
+    if (fix.kind === 'createNode') {
+        return template ? nodeStubChanges(fix, text, template.template) : [];
+    }
+    return fixChanges(fix, text);
+}
+
+function toWorkspaceEdit(document: vscode.TextDocument, changes: TextChange[]): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    changes.forEach(change => {
+        edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)),
+            change.text
+        );
+    });
+    return edit;
+}
+
+function isSameDiagnostic(diagnostic: vscode.Diagnostic, entry: LintFixEntry): boolean {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return code === entry.code && diagnostic.range.isEqual(entry.range);
+}
+
+/**
+ * Offers to turn `next: target` into a one-item list when the selection is on it.
+ */
+function scalarNextAction(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction | undefined {
+    const text = document.getText();
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+
+    let found: { key: Scalar; value: Scalar; parentKey?: Node } | undefined;
+    for (const doc of parseAllDocuments(text)) {
+        visit(doc, {
+            Pair(_, pair, path) {
+                const { key, value } = pair;
+                if (!isScalar(key) || key.value !== 'next' || !isScalar(value) || !key.range || !value.range) {
+                    return;
+                }
+                if (typeof value.value !== 'string' || value.value.trim() === '') {
+                    return;
+                }
+                if (start <= value.range[1] && end >= key.range[0]) {
+                    // The pair owning the map this `next` belongs to, i.e. the node
+                    const owner = path[path.length - 2];
+                    found = { key, value, parentKey: owner && 'key' in owner ? owner.key as Node : undefined };
+                    return visit.BREAK;
+                }
+            }
+        });
+        if (found) {
+            break;
+        }
+    }
+
+    if (!found) {
+        return undefined;
+    }
+
+    const { key, value, parentKey } = found;
+    const keyColumn = document.positionAt(key.range![0]).character;
+    const parentColumn = parentKey?.range ? document.positionAt(parentKey.range[0]).character : undefined;
+    const step = parentColumn !== undefined && keyColumn > parentColumn ? keyColumn - parentColumn : 2;
+    const source = text.slice(value.range![0], value.range![1]);
+
+    const action = new vscode.CodeAction("Convert 'next' to a list", vscode.CodeActionKind.RefactorRewrite);
+    action.edit = toWorkspaceEdit(document, [{
+        start: key.range![1],
+        end: value.range![1],
+        text: `:${getEol(document)}${' '.repeat(keyColumn + step)}- ${source}`
+    }]);
+    return action;
+}
+
+// Requested by `editor.codeActionsOnSave` with `source.fixAll` or `source.fixAll.genor`
+const FIX_ALL_KIND = vscode.CodeActionKind.SourceFixAll.append('genor');
+
+/**
+ * Quick fixes for the linter's diagnostics, a fix-all action for the whole
+ * file and a refactoring for single-target `next` fields.
+ */
+export function activateCodeActions(templateManager: TemplateManager): vscode.Disposable[] {
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider('yaml', {
+        provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+            const entries = getLintFixes(document);
+            const templates = templateManager.getAllTemplates(agentTemplates);
+            const text = document.getText();
+            const actions: vscode.CodeAction[] = [];
+
+            context.diagnostics.forEach(diagnostic => {
+                entries.filter(entry => isSameDiagnostic(diagnostic, entry)).forEach(({ fix }) => {
+                    // Unresolved references can be created from any template
+                    const choices = fix.kind === 'createNode' ? templates : [undefined];
+                    const preferred = fix.kind === 'createNode' ? preferredTemplate(fix.name, templates) : undefined;
+
+                    choices.forEach(template => {
+                        const title = template
+                            ? `${describeFix(fix)} from the ${template.name} template`
+                            : describeFix(fix);
+                        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+                        action.diagnostics = [diagnostic];
+                        action.edit = toWorkspaceEdit(document, changesFor(fix, text, template));
+                        action.isPreferred = template === preferred;
+                        actions.push(action);
+                    });
+                });
+            });
+
+            // Next to the quick fixes when there is more than one, or on its own when asked for
+            const fixes = entries.map(entry => entry.fix).filter(fix => fix.kind !== 'createNode');
+            const fixAllRequested = context.only?.contains(FIX_ALL_KIND) ?? false;
+            if ((fixAllRequested && fixes.length > 0) || (actions.length > 0 && fixes.length > 1)) {
+                const fixAll = new vscode.CodeAction('Fix all auto-fixable GenOr problems in this file', FIX_ALL_KIND);
+                fixAll.edit = toWorkspaceEdit(document, fixAllChanges(fixes, text));
+                actions.push(fixAll);
+            }
+
+            if (!context.only || context.only.contains(vscode.CodeActionKind.RefactorRewrite)) {
+                const convertNext = scalarNextAction(document, range);
+                if (convertNext) {
+                    actions.push(convertNext);
+                }
+            }
+
+            return actions;
+        }
+    }, {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, FIX_ALL_KIND, vscode.CodeActionKind.RefactorRewrite]
+    });
+
+    return [codeActionProvider];
+}
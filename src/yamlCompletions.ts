@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { CompletionKind, provideWorkflowCompletions } from './workflowCompletions';
+import { isWorkflowFile } from './workflowFiles';
+import { workspaceDefinitions } from './yamlLinter';
+
+const ITEM_KINDS: { [kind in CompletionKind]: vscode.CompletionItemKind } = {
+    node: vscode.CompletionItemKind.Reference,
+    output: vscode.CompletionItemKind.Property,
+    field: vscode.CompletionItemKind.Field,
+    nodeType: vscode.CompletionItemKind.EnumMember,
+    agent: vscode.CompletionItemKind.Class
+};
+
+/**
+ * Completions for workflow files: node names in `next`/`then`/`else`,
+ * outputs after `{{ node.outputs.`, the keys a node accepts, `type` values
+ * and `agent_path`s from the agent catalog.
+ */
+export function activateCompletions(): vscode.Disposable[] {
+    const completionProvider = vscode.languages.registerCompletionItemProvider('yaml', {
+        provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+            if (!isWorkflowFile(document.uri)) {
+                return undefined;
+            }
+
+            const completions = provideWorkflowCompletions(document.getText(), document.offsetAt(position), workspaceDefinitions());
+            if (!completions) {
+                return undefined;
+            }
+
+            // Replace what has been typed, including the dots of an agent path
+            const range = new vscode.Range(document.positionAt(completions.start), position);
+            return completions.items.map(completion => {
+                const item = new vscode.CompletionItem(completion.label, ITEM_KINDS[completion.kind]);
+                item.detail = completion.detail;
+                if (completion.documentation) {
+                    item.documentation = new vscode.MarkdownString(completion.documentation);
+                }
+                if (completion.snippet) {
+                    item.insertText = new vscode.SnippetString(completion.snippet);
+                }
+                item.range = range;
+                return item;
+            });
+        }
+    }, '.', ' ', '[', ',');
+
+    return [completionProvider];
+}
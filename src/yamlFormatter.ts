@@ -0,0 +1,361 @@
+import { isMap, isPair, isScalar, isSeq, parseAllDocuments, Node, Pair, YAMLMap } from 'yaml';
+import { assertSemanticallyEqual } from './yamlRoundTrip';
+
+/**
+ * Canonical key order per node type. `agent` orders the keys of agent nodes and
+ * `agent.inputs` the keys of their `inputs`; `*` and `*.inputs` apply to any type
+ * without its own entry. Keys that are not listed keep their relative order after
+ * the listed ones.
+ */
+export interface KeyOrder {
+    [nodeType: string]: string[];
+}
+
+export const DEFAULT_KEY_ORDER: KeyOrder = {
+    '*': ['name', 'type', 'inputs', 'conditions', 'outputs', 'next'],
+    '*.inputs': ['agent_path', 'init_kwargs', 'call_kwargs', 'call_args', 'iterable', 'subgraph']
+};
+
+export interface FormatOptions {
+    indent: number;
+    lineWidth: number;
+    /** When set, node keys are rewritten in this canonical order */
+    keyOrder?: KeyOrder;
+}
+
+/**
+ * Result of formatting a slice of a document. Offsets refer to the original text
+ * and always cover whole lines.
+ */
+export interface RangeFormatResult {
+    start: number;
+    end: number;
+    text: string;
+}
+
+interface BlockScalar {
+    /** Block indicator plus any trailing comment, e.g. `|-  # note` */
+    header: string;
+    /** Original content lines, untouched */
+    body: string[];
+    /** Column that the content lines are indented relative to */
+    column: number;
+}
+
+// Matches `key: |`, `- key: >-`, `- |+`, `key: !tag |2` and the like
+const BLOCK_SCALAR_HEADER = /^(?<prefix>\s*(?:-\s+)*)(?<key>(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"-][^#]*?|-[^\s#][^#]*?)\s*:\s+)?(?<properties>(?:[!&]\S+\s+)*)(?<header>[|>](?:[1-9][+-]?|[+-][1-9]?)?(?:\s+#.*)?)\s*$/;
+
+// The tag and anchor before a block indicator, which stay on the placeholder line
+const NODE_PROPERTIES = /(?:[!&]\S+\s+)*$/;
+
+const BLOCK_SCALAR_PLACEHOLDER = /^(?<prefix>.*?)"@@BLOCK_SCALAR_(?<index>\d+)@@"[ \t]*$/gm;
+
+/**
+ * Finds the column block scalar content is indented relative to: the key for
+ * `key: |`, or the last sequence dash for `- |`.
+ */
+function blockColumn(prefix: string, hasKey: boolean): number {
+    return hasKey ? prefix.length : prefix.lastIndexOf('-');
+}
+
+/**
+ * Replaces every block scalar (`|`, `>`, with any key, chomping or indentation
+ * indicator) with a quoted placeholder so the formatter cannot reflow it.
+ */
+function extractBlockScalars(text: string): { modifiedText: string; blocks: BlockScalar[] } {
+    const lines = text.split(/\r?\n/);
+    const blocks: BlockScalar[] = [];
+    const modifiedLines: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const headerMatch = line.match(BLOCK_SCALAR_HEADER);
+        if (!headerMatch || !headerMatch.groups) {
+            modifiedLines.push(line);
+            i++;
+            continue;
+        }
+
+        const { prefix, key = '', properties, header } = headerMatch.groups;
+        const column = blockColumn(prefix, key !== '');
+        const body: string[] = [];
+        i++;
+        // Collect all lines that are indented past the block's column,
+        // or are blank (preserve them as part of the block)
+        while (i < lines.length) {
+            const currentLine = lines[i];
+            const currentIndent = currentLine.length - currentLine.trimStart().length;
+            if (currentLine.trim() === '' || currentIndent > column) {
+                body.push(currentLine);
+                i++;
+            } else {
+                break;
+            }
+        }
+
+        // Trailing blank lines only belong to the scalar with "keep" chomping,
+        // and the empty string after a final newline never does
+        const keepChomping = /[|>][1-9]?\+/.test(header);
+        while (body.length > 0 && body[body.length - 1].trim() === '' &&
+            (!keepChomping || i === lines.length)) {
+            body.pop();
+            i--;
+            if (keepChomping) {
+                break;
+            }
+        }
+
+        modifiedLines.push(`${prefix}${key}${properties}"@@BLOCK_SCALAR_${blocks.length}@@"`);
+        blocks.push({ header, body, column });
+    }
+    return { modifiedText: modifiedLines.join('\n'), blocks };
+}
+
+/**
+ * Restores placeholders with the original block scalars.
+ * Looks for lines matching: {prefix}"@@BLOCK_SCALAR_{index}@@" and replaces them
+ * with the original header and content, shifted only if the formatter moved the key.
+ * The prefix keeps any tag and anchor the formatter wrote before the placeholder.
+ */
+function restoreBlockScalars(formattedText: string, blocks: BlockScalar[]): string {
+    return formattedText.replace(BLOCK_SCALAR_PLACEHOLDER, (match, prefix: string, index: string) => {
+        const block = blocks[Number(index)];
+        const structure = prefix.replace(NODE_PROPERTIES, '');
+        const hasKey = !/^\s*(?:-\s*)*$/.test(structure);
+        const leading = structure.match(/^\s*(?:-\s+)*/)![0];
+        const shift = blockColumn(hasKey ? leading : structure.trimEnd(), hasKey) - block.column;
+
+        const body = block.body.map(line => {
+            if (shift === 0 || line.trim() === '') {
+                return line;
+            }
+            return shift > 0 ? ' '.repeat(shift) + line : line.slice(-shift);
+        });
+
+        return [`${prefix}${block.header}`, ...body].join('\n');
+    });
+}
+
+/**
+ * Reorders the entries of a map. Comments and blank lines stay attached to the
+ * key they precede, including the comment YAML attaches to the map itself when
+ * it sits above the first key.
+ */
+function sortMapKeys(map: YAMLMap, order: string[]) {
+    if (map.items.length < 2) {
+        return;
+    }
+
+    const rank = (pair: Pair) => {
+        const index = order.indexOf(String(isScalar(pair.key) ? pair.key.value : pair.key));
+        return index === -1 ? order.length : index;
+    };
+
+    const sorted = [...map.items].sort((a, b) => rank(a) - rank(b));
+    if (sorted.every((pair, index) => pair === map.items[index])) {
+        return;
+    }
+
+    const firstKey = map.items[0].key;
+    if (map.commentBefore && isScalar(firstKey)) {
+        firstKey.commentBefore = firstKey.commentBefore
+            ? `${map.commentBefore}\n${firstKey.commentBefore}`
+            : map.commentBefore;
+        map.commentBefore = undefined;
+    }
+
+    const newFirstKey = sorted[0].key;
+    if (isScalar(newFirstKey)) {
+        newFirstKey.spaceBefore = false;
+    }
+
+    map.items = sorted;
+}
+
+function orderFor(keyOrder: KeyOrder, nodeType: string, scope: string = ''): string[] | undefined {
+    return keyOrder[`${nodeType}${scope}`] ?? keyOrder[`*${scope}`];
+}
+
+/**
+ * Applies the canonical key order to every node in a `nodes` map, recursing into
+ * iterator/while `subgraph.nodes`.
+ */
+function applyKeyOrder(nodes: YAMLMap, keyOrder: KeyOrder) {
+    for (const pair of nodes.items) {
+        const node = pair.value;
+        if (!isMap(node)) {
+            continue;
+        }
+
+        const nodeType = String(node.get('type') ?? '').toLowerCase();
+        const nodeOrder = orderFor(keyOrder, nodeType);
+        if (nodeOrder) {
+            sortMapKeys(node, nodeOrder);
+        }
+
+        const inputs = node.get('inputs');
+        if (isMap(inputs)) {
+            const inputsOrder = orderFor(keyOrder, nodeType, '.inputs');
+            if (inputsOrder) {
+                sortMapKeys(inputs, inputsOrder);
+            }
+
+            const subgraph = inputs.get('subgraph');
+            const nestedNodes = isMap(subgraph) ? subgraph.get('nodes') : undefined;
+            if (isMap(nestedNodes)) {
+                applyKeyOrder(nestedNodes, keyOrder);
+            }
+        }
+    }
+}
+
+/**
+ * Formats a whole YAML document while leaving block scalars untouched.
+ * Throws if the text is not valid YAML, and throws a RoundTripError if the
+ * formatted text would not parse back to the same data.
+ */
+export function formatYamlText(text: string, options: FormatOptions): string {
+    return formatText(text, options, false);
+}
+
+/**
+ * @param isNodesMap Whether the text's root map is itself a map of workflow
+ * nodes (a node formatted on its own) rather than a workflow with `nodes`.
+ */
+function formatText(text: string, options: FormatOptions, isNodesMap: boolean): string {
+    const { modifiedText, blocks } = extractBlockScalars(text);
+
+    // Each `---` separated document is formatted on its own; stringifying a
+    // document keeps its directives and start/end markers
+    const docs = parseAllDocuments(modifiedText);
+    if (docs.length === 0) {
+        // Nothing but comments or whitespace, which would otherwise be dropped
+        return text;
+    }
+
+    const formattedYaml = docs.map(doc => {
+        if (options.keyOrder) {
+            const nodes = isNodesMap ? doc.contents : doc.get('nodes');
+            if (isMap(nodes)) {
+                applyKeyOrder(nodes, options.keyOrder);
+            }
+        }
+
+        return doc.toString({
+            indent: options.indent,
+            lineWidth: options.lineWidth
+        });
+    }).join('');
+
+    const finalYaml = restoreBlockScalars(formattedYaml, blocks);
+
+    // Never hand back output that changes the meaning of the workflow
+    assertSemanticallyEqual(text, finalYaml);
+
+    return finalYaml;
+}
+
+/**
+ * Formats the smallest mapping entry that fully contains the given selection,
+ * e.g. a single workflow node. Returns undefined when no entry contains it.
+ */
+export function formatYamlRange(
+    text: string,
+    selectionStart: number,
+    selectionEnd: number,
+    options: FormatOptions
+): RangeFormatResult | undefined {
+    const docs = parseAllDocuments(text);
+    for (const doc of docs) {
+        if (doc.errors.length > 0) {
+            throw doc.errors[0];
+        }
+    }
+
+    const enclosing = docs
+        .map(doc => findEnclosingPair(doc.contents, text, selectionStart, selectionEnd))
+        .find(found => found !== undefined);
+    if (!enclosing) {
+        return undefined;
+    }
+    const { pair, isNode } = enclosing;
+
+    const key = pair.key as Node;
+    const value = pair.value as Node | null;
+    const start = text.lastIndexOf('\n', key.range![0] - 1) + 1;
+    const column = key.range![0] - start;
+
+    let end = value && value.range ? value.range[1] : key.range![1];
+    while (end > start && /\s/.test(text[end - 1])) {
+        end--;
+    }
+    const lineEnd = text.indexOf('\n', end);
+    end = lineEnd === -1 ? text.length : lineEnd;
+    if (end > start && text[end - 1] === '\r') {
+        end--;
+    }
+
+    // Format the entry as a standalone document, then shift it back to its column
+    const entryLines = text.slice(start, end).split(/\r?\n/);
+    const dedented = entryLines
+        .map(line => line.slice(Math.min(column, line.length - line.trimStart().length)))
+        .join('\n');
+    const formatted = formatText(dedented, options, isNode).replace(/\n+$/, '');
+    const indentation = ' '.repeat(column);
+    const reindented = formatted
+        .split('\n')
+        .map(line => line.length > 0 ? indentation + line : line)
+        .join('\n');
+
+    return { start, end, text: reindented };
+}
+
+/**
+ * Finds the innermost block mapping entry containing the selection. `isNode` tells
+ * whether the entry is a workflow node, i.e. it sits directly in a `nodes` map.
+ */
+function findEnclosingPair(
+    node: unknown,
+    text: string,
+    selectionStart: number,
+    selectionEnd: number,
+    parentKey?: string
+): { pair: Pair; isNode: boolean } | undefined {
+    let items: unknown[] = [];
+    if (isMap(node) || isSeq(node)) {
+        items = node.items;
+    }
+
+    for (const item of items) {
+        if (isPair(item)) {
+            const key = item.key as Node | null;
+            const value = item.value as Node | null;
+            if (!key || !key.range) {
+                continue;
+            }
+            const pairStart = key.range[0];
+            const pairEnd = value && value.range ? value.range[1] : key.range[1];
+            if (selectionStart < pairStart || selectionEnd > pairEnd) {
+                continue;
+            }
+            // Prefer the innermost entry that still starts on its own line
+            const keyName = isScalar(key) ? String(key.value) : undefined;
+            const nested = findEnclosingPair(value, text, selectionStart, selectionEnd, keyName);
+            if (nested) {
+                return nested;
+            }
+            const lineStart = text.lastIndexOf('\n', pairStart - 1) + 1;
+            if (text.slice(lineStart, pairStart).trim() === '' && !isScalar(value)) {
+                return { pair: item, isNode: isMap(node) && parentKey === 'nodes' };
+            }
+        } else if (item && (item as Node).range) {
+            const range = (item as Node).range!;
+            if (selectionStart >= range[0] && selectionEnd <= range[1]) {
+                return findEnclosingPair(item, text, selectionStart, selectionEnd);
+            }
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import { countChangedLines, describeDryRun } from './formatSummary';
+import { computeLineChanges, TextChange } from './lineDiff';
+import { DEFAULT_KEY_ORDER, formatYamlRange, formatYamlText, FormatOptions, KeyOrder } from './yamlFormatter';
+import { describeDifferences, RoundTripError } from './yamlRoundTrip';
+import { findWorkflowFiles } from './workflowFiles';
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('GenOr YAML Toolkit');
+    }
+    return outputChannel;
+}
+
+function getFormatOptions(): FormatOptions {
+    const config = vscode.workspace.getConfiguration('genorYamlToolkit');
+
+    const keyOrder = config.get<boolean>('canonicalKeyOrder', false)
+        ? { ...DEFAULT_KEY_ORDER, ...config.get<KeyOrder>('keyOrder', {}) }
+        : undefined;
+
+    return {
+        indent: config.get<number>('indentation', 2),
+        lineWidth: config.get<number>('wrapLines', -1),
+        keyOrder
+    };
+}
+
+/**
+ * Tells the user why a document was left unformatted. Round-trip failures
+ * offer a listing of the paths whose values would have changed.
+ */
+export async function reportFormattingError(document: vscode.TextDocument, error: unknown): Promise<void> {
+    if (!(error instanceof RoundTripError)) {
+        vscode.window.showErrorMessage("Invalid YAML format.");
+        return;
+    }
+
+    const choice = await vscode.window.showErrorMessage(
+        `Formatting was not applied: it would change ${error.differences.length} value(s) in the workflow.`,
+        'Show Differences'
+    );
+
+    if (choice === 'Show Differences') {
+        const channel = getOutputChannel();
+        channel.appendLine(`Formatting ${document.uri.fsPath} would change:`);
+        channel.appendLine(describeDifferences(error.differences));
+        channel.appendLine('');
+        channel.show(true);
+    }
+}
+
+/**
+ * Turns line changes into text edits. `baseOffset` is added to every change,
+ * for changes computed against a slice of the document.
+ */
+function toTextEdits(document: vscode.TextDocument, changes: TextChange[], baseOffset: number = 0): vscode.TextEdit[] {
+    return changes.map(change => vscode.TextEdit.replace(
+        new vscode.Range(
+            document.positionAt(baseOffset + change.start),
+            document.positionAt(baseOffset + change.end)
+        ),
+        change.text
+    ));
+}
+
+function getEol(document: vscode.TextDocument): string {
+    return document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+}
+
+/**
+ * Computes the edits needed to format a whole document. Only the lines that
+ * actually change are touched, so cursors, folding and breakpoints survive.
+ * Throws if the document is not valid YAML or formatting would change its meaning.
+ */
+export function provideFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    return toTextEdits(document, formattingChanges(document));
+}
+
+// The line changes formatting makes to a whole document
+function formattingChanges(document: vscode.TextDocument): TextChange[] {
+    const originalText = document.getText();
+    const finalYaml = formatYamlText(originalText, getFormatOptions());
+
+    return computeLineChanges(originalText, finalYaml, getEol(document));
+}
+
+interface FileFormatResult {
+    uri: vscode.Uri;
+    edits: vscode.TextEdit[];
+    linesRemoved: number;
+    linesAdded: number;
+}
+
+/**
+ * Formats every workflow file in the workspace without touching them. Files that
+ * fail to format are returned separately with the reason.
+ */
+async function formatWorkspaceFiles(
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<{ results: FileFormatResult[]; failures: { uri: vscode.Uri; error: unknown }[] }> {
+    const results: FileFormatResult[] = [];
+    const failures: { uri: vscode.Uri; error: unknown }[] = [];
+
+    const yamlFiles = await findWorkflowFiles();
+
+    // Calculate total files for progress reporting
+    const totalFiles = yamlFiles.length;
+    let filesProcessed = 0;
+
+    for (const fileUri of yamlFiles) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+
+        // Update progress bar with percentage
+        filesProcessed++;
+        const progressPercentage = (filesProcessed / totalFiles) * 100;
+        progress.report({
+            increment: 100 / totalFiles,
+            message: `${Math.round(progressPercentage)}% complete`
+        });
+
+        try {
+            const document = await vscode.workspace.openTextDocument(fileUri);
+            const changes = formattingChanges(document);
+            if (changes.length === 0) {
+                continue;
+            }
+
+            results.push({
+                uri: fileUri,
+                edits: toTextEdits(document, changes),
+                ...countChangedLines(document.getText(), changes)
+            });
+        } catch (error) {
+            failures.push({ uri: fileUri, error });
+        }
+    }
+
+    return { results, failures };
+}
+
+/**
+ * Formats all GenOr workflows in the workspace. In dry-run mode the changes are
+ * only listed; either way they can then be applied as one reviewable edit.
+ */
+async function formatAllWorkflows(): Promise<void> {
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Dry Run', description: 'List the files that would change', dryRun: true },
+        { label: 'Format All', description: 'Preview and apply formatting to every workflow', dryRun: false }
+    ], {
+        placeHolder: 'Format all GenOr workflows in the workspace'
+    });
+
+    if (!mode) {
+        return;
+    }
+
+    const outcome = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Formatting GenOr workflows...',
+        cancellable: true
+    }, async (progress, token) => {
+        const formatted = await formatWorkspaceFiles(progress, token);
+        return token.isCancellationRequested ? undefined : formatted;
+    });
+
+    if (!outcome) {
+        return;
+    }
+
+    const { results, failures } = outcome;
+    if (mode.dryRun) {
+        const channel = getOutputChannel();
+        describeDryRun(
+            results.map(result => ({ ...result, path: vscode.workspace.asRelativePath(result.uri) })),
+            failures.map(failure => ({ ...failure, path: vscode.workspace.asRelativePath(failure.uri) }))
+        ).forEach(line => channel.appendLine(line));
+        channel.appendLine('');
+        channel.show(true);
+    }
+
+    if (results.length === 0) {
+        vscode.window.showInformationMessage('All GenOr workflows are already formatted');
+        return;
+    }
+
+    if (mode.dryRun) {
+        const choice = await vscode.window.showInformationMessage(
+            `${results.length} workflow file(s) would change.`,
+            'Apply Changes'
+        );
+        if (choice !== 'Apply Changes') {
+            return;
+        }
+    }
+
+    // Apply everything as one edit so it can be reviewed in the refactor preview
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const metadata: vscode.WorkspaceEditEntryMetadata = {
+        needsConfirmation: true,
+        label: 'Format GenOr workflow'
+    };
+    results.forEach(result => {
+        result.edits.forEach(edit => workspaceEdit.replace(result.uri, edit.range, edit.newText, metadata));
+    });
+
+    await vscode.workspace.applyEdit(workspaceEdit);
+}
+
+export function activateFormatter(): vscode.Disposable[] {
+    const documentFormattingProvider = vscode.languages.registerDocumentFormattingEditProvider('yaml', {
+        provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+            try {
+                return provideFormattingEdits(document);
+            } catch (error) {
+                reportFormattingError(document, error);
+                return [];
+            }
+        }
+    });
+
+    const rangeFormattingProvider = vscode.languages.registerDocumentRangeFormattingEditProvider('yaml', {
+        provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+            try {
+                const result = formatYamlRange(
+                    document.getText(),
+                    document.offsetAt(range.start),
+                    document.offsetAt(range.end),
+                    getFormatOptions()
+                );
+
+                if (!result) {
+                    return [];
+                }
+
+                const originalText = document.getText().slice(result.start, result.end);
+                return toTextEdits(
+                    document,
+                    computeLineChanges(originalText, result.text, getEol(document)),
+                    result.start
+                );
+            } catch (error) {
+                reportFormattingError(document, error);
+                return [];
+            }
+        }
+    });
+
+    // Format on save is opt-in through genorYamlToolkit.formatOnSave
+    const formatOnSaveSubscription = vscode.workspace.onWillSaveTextDocument(event => {
+        if (event.document.languageId !== 'yaml') {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('genorYamlToolkit', event.document.uri);
+        if (!config.get<boolean>('formatOnSave', false)) {
+            return;
+        }
+
+        try {
+            event.waitUntil(Promise.resolve(provideFormattingEdits(event.document)));
+        } catch (error) {
+            // Never block a save because the document is not valid YAML yet
+            if (error instanceof RoundTripError) {
+                reportFormattingError(event.document, error);
+            } else {
+                console.error(`Skipping format on save for ${event.document.uri.toString()}: ${error}`);
+            }
+        }
+    });
+
+    const formatAllCommand = vscode.commands.registerCommand('genor-yaml-toolkit.formatAllWorkflows', formatAllWorkflows);
+
+    return [documentFormattingProvider, rangeFormattingProvider, formatOnSaveSubscription, formatAllCommand];
+}
@@ -1,630 +1,320 @@
-
+import * as fs from 'fs';
 import * as vscode from 'vscode';
-import { parseDocument, Document, Node, YAMLMap, Pair } from 'yaml';
-
-interface LintError {
-    message: string;
-    severity: vscode.DiagnosticSeverity;
+import { findWorkflowFiles, isWorkflowFile } from './workflowFiles';
+import { LintError, LintSeverity, lintText } from './lintEngine';
+import { LintScheduler } from './lintScheduler';
+import { LintFix } from './lintFixes';
+import { LintRule, RuleSetting } from './lintRules';
+import { BUILTIN_NODE_TYPES, mergeNodeTypeSchemas, NODE_TYPE_SCHEMA_FILE, NodeTypeSchemas, parseNodeTypeSchemas } from './nodeTypeSchema';
+import { AGENT_CATALOG_FILE, AgentCatalog, BUILTIN_AGENTS, mergeAgentCatalogs, parseAgentCatalog } from './agentCatalog';
+import { BUILTIN_LLM_PROVIDERS, LLM_PROVIDERS_FILE, LlmProviders, mergeLlmProviders, parseLlmProviders } from './llmProviders';
+import { parseVariables, substitutionFileCandidates, SubstitutionVariables, VariableDefinition, VARIABLES_FILE } from './substitutions';
+
+/**
+ * A quick fix for one of the diagnostics of a document.
+ */
+export interface LintFixEntry {
+    code: LintRule;
     range: vscode.Range;
+    fix: LintFix;
 }
 
 // Create a single static diagnostic collection
 const collection = vscode.languages.createDiagnosticCollection('yaml-lint');
 
-export function lintYaml(document: vscode.TextDocument) {
-    // Clear diagnostics for this document
-    collection.delete(document.uri);
+const scheduler = new LintScheduler();
 
-    const lintErrors: LintError[] = [];
-    let doc: Document.Parsed;
-
-    try {
-        doc = parseDocument(document.getText());
-    } catch (e: any) {
-        lintErrors.push({
-            message: `YAML Syntax Error: ${e.message}`,
-            severity: vscode.DiagnosticSeverity.Error,
-            range: new vscode.Range(0, 0, 0, 1)
-        });
-        collection.set(document.uri, lintErrors.map(convertLintErrorToDiagnostic));
-        return;
-    }
+// Files linted by "Lint All Workflows" keep their diagnostics after they are closed
+const workspaceLintedFiles = new Set<string>();
 
-    const nodes = doc.get('nodes');
-    if (!nodes || !(nodes instanceof YAMLMap)) {
-        collection.set(document.uri, lintErrors.map(convertLintErrorToDiagnostic));
-        return;
-    }
+// Fixes from the last lint of each document, valid for that document version only
+const lintFixes = new Map<string, { version: number; entries: LintFixEntry[] }>();
 
-    // Track used node references for circular dependency check
-    const nodeReferences = new Set<string>();
-    const definedNodes = new Set<string>();
-
-    // Validate nodes recursively
-    lintErrors.push(...validateNodes(nodes, document, nodeReferences, definedNodes));
-
-    // Check for unresolved references
-    nodeReferences.forEach(ref => {
-        if (!definedNodes.has(ref)) {
-            lintErrors.push(createLintError(
-                0, 0,
-                `Unresolved node reference: ${ref}`,
-                vscode.DiagnosticSeverity.Error
-            ));
-        }
-    });
+// Built-in node types merged with the workspace's .genor/node-types.yaml
+let nodeTypeSchemas: NodeTypeSchemas = BUILTIN_NODE_TYPES;
 
-    // Convert LintErrors to Diagnostics and set them
-    collection.set(document.uri, lintErrors.map(convertLintErrorToDiagnostic));
-}
+// Built-in agents merged with the workspace's .genor/agents.yaml
+let agentCatalog: AgentCatalog = BUILTIN_AGENTS;
 
-function validateNodes(
-    nodes: YAMLMap,
-    document: vscode.TextDocument,
-    nodeReferences: Set<string>,
-    definedNodes: Set<string>,
-    parentNodeName?: string
-): LintError[] {
-    const lintErrors: LintError[] = [];
-
-    for (const pair of nodes.items) {
-        const nodeKey = pair.key;
-        const nodeValue = pair.value;
-
-        // Get the node name as string
-        const nodeName = typeof nodeKey === 'string' ? nodeKey : String(nodeKey);
-        const fullNodeName = parentNodeName ? `${parentNodeName}.${nodeName}` : nodeName;
-        definedNodes.add(fullNodeName);
-
-        // Find the line number for this node
-        const lineNo = findNodeLine(document, nodeName);
-
-        // Skip if we couldn't find the line
-        if (lineNo === -1) {
-            continue;
-        }
-
-        // Check if nodeValue is a valid object with proper structure
-        if (nodeValue && typeof nodeValue === 'object') {
-            // Check required fields
-            lintErrors.push(...checkRequiredFields(nodeValue, nodeName, lineNo));
-
-            // Check data types
-            lintErrors.push(...checkDataTypes(nodeValue, nodeName, lineNo));
+// Built-in model providers merged with the workspace's .genor/llm-providers.yaml
+let llmProviders: LlmProviders = BUILTIN_LLM_PROVIDERS;
 
-            // Check for empty values
-            lintErrors.push(...checkEmptyValues(nodeValue, nodeName, lineNo));
-
-            // Collect node references
-            collectNodeReferences(nodeValue, nodeReferences);
-
-            // Check indentation
-            const indentationError = checkIndentation(document, lineNo);
-            if (indentationError) {
-                lintErrors.push(indentationError);
-            }
+// Variables from each workspace folder's .genor/variables.yaml, kept with their file
+let variableFiles: { uri: vscode.Uri; variables: SubstitutionVariables }[] = [];
 
-            // Always check for nested nodes if there's a subgraph structure
-            // This ensures we validate nested nodes even if the parent node has issues
-            const hasGetMethod = 'get' in nodeValue && typeof (nodeValue as any).get === 'function';
-            const inputs = hasGetMethod ? (nodeValue as any).get('inputs') : (nodeValue as any)['inputs'];
+const SEVERITIES: { [severity in LintSeverity]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
 
-            if (inputs) {
-                const inputsHasGet = inputs && typeof inputs === 'object' && 'get' in inputs && typeof inputs.get === 'function';
-                const subgraph = inputsHasGet ? inputs.get('subgraph') : inputs['subgraph'];
-
-                if (subgraph) {
-                    const subgraphHasGet = subgraph && typeof subgraph === 'object' && 'get' in subgraph && typeof subgraph.get === 'function';
-                    const nestedNodes = subgraphHasGet ? subgraph.get('nodes') : subgraph['nodes'];
+export function lintYaml(document: vscode.TextDocument) {
+    // Clear diagnostics for this document
+    collection.delete(document.uri);
+    lintFixes.delete(document.uri.toString());
+
+    const lintErrors = lintText(document.getText(), {
+        nodeTypes: nodeTypeSchemas,
+        agents: agentCatalog,
+        llmProviders,
+        rules: vscode.workspace
+            .getConfiguration('genorYamlToolkit', document.uri)
+            .get<{ [rule: string]: RuleSetting }>('lintRules', {}),
+        variables: variableFiles.length > 0
+            ? Object.assign({}, ...variableFiles.map(file => file.variables))
+            : undefined,
+        // Only files on disk can be checked synchronously
+        fileExists: document.uri.scheme === 'file'
+            ? reference => resolveSubstitutionFile(document, reference) !== undefined
+            : undefined
+    });
 
-                    if (nestedNodes && nestedNodes instanceof YAMLMap) {
-                        // Recursively validate nested nodes
-                        lintErrors.push(...validateNodes(nestedNodes, document, nodeReferences, definedNodes, nodeName));
-                    }
-                }
-            }
-        } else {
-            // Node value is not an object
-            lintErrors.push(createLintError(
-                lineNo, 0,
-                `Node "${nodeName}" has invalid structure`,
-                vscode.DiagnosticSeverity.Error
-            ));
+    // Convert LintErrors to Diagnostics and set them
+    const diagnostics = lintErrors.map(error => convertLintErrorToDiagnostic(document, error));
+    collection.set(document.uri, diagnostics);
+
+    // Keep the fixes so the code action provider can offer them
+    const entries: LintFixEntry[] = [];
+    lintErrors.forEach((error, index) => {
+        if (error.fix) {
+            entries.push({ code: error.code, range: diagnostics[index].range, fix: error.fix });
         }
-    }
-
-    return lintErrors;
+    });
+    lintFixes.set(document.uri.toString(), { version: document.version, entries });
 }
 
-function collectNodeReferences(node: any, nodeReferences: Set<string>) {
-    if (!node) return;
-
-    const next = node.get ? node.get('next') : node.next;
+/**
+ * The file a `${path}` substitution in the document points at, if it exists.
+ */
+export function resolveSubstitutionFile(document: vscode.TextDocument, reference: string): vscode.Uri | undefined {
+    const root = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+    const file = substitutionFileCandidates(reference, document.uri.fsPath, root).find(candidate => fs.existsSync(candidate));
+    return file ? vscode.Uri.file(file) : undefined;
+}
 
-    if (next) {
-        if (Array.isArray(next)) {
-            next.forEach(n => {
-                if (typeof n === 'string') {
-                    nodeReferences.add(n);
-                }
-            });
-        } else if (typeof next === 'string') {
-            nodeReferences.add(next);
+/**
+ * A variable from the workspace's variables files, with the file defining it.
+ */
+export function findVariable(name: string): { uri: vscode.Uri; definition: VariableDefinition } | undefined {
+    // Later workspace folders win, as when the variables are merged for linting
+    for (let i = variableFiles.length - 1; i >= 0; i--) {
+        const definition = variableFiles[i].variables[name];
+        if (definition) {
+            return { uri: variableFiles[i].uri, definition };
         }
     }
+    return undefined;
 }
 
+/**
+ * The node types and agents in use: the built-ins merged with the workspace's definitions.
+ */
+export function workspaceDefinitions(): { nodeTypes: NodeTypeSchemas; agents: AgentCatalog } {
+    return { nodeTypes: nodeTypeSchemas, agents: agentCatalog };
+}
 
-function checkRequiredFields(node: any, nodeName: string, line: number): LintError[] {
-    const errors: LintError[] = [];
+/**
+ * The quick fixes for a document's current diagnostics. Empty while the
+ * document has changed since it was last linted.
+ */
+export function getLintFixes(document: vscode.TextDocument): LintFixEntry[] {
+    const fixes = lintFixes.get(document.uri.toString());
+    return fixes && fixes.version === document.version ? fixes.entries : [];
+}
 
-    // Get the node type first with proper type checking
-    const hasGetMethod = node && typeof node === 'object' && 'get' in node && typeof node.get === 'function';
-    const nodeType = hasGetMethod ? node.get('type') : node['type'];
+function convertLintErrorToDiagnostic(document: vscode.TextDocument, lintError: LintError): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(document.positionAt(lintError.start), document.positionAt(lintError.end)),
+        lintError.message,
+        SEVERITIES[lintError.severity]
+    );
+    diagnostic.code = lintError.code;
+    diagnostic.source = 'genor-lint';
+    return diagnostic;
+}
 
-    // If no type is specified, skip validation
-    if (!nodeType) {
-        return errors;
-    }
+// Whether a document is linted as it is opened, edited and saved
+function isLiveLinted(document: vscode.TextDocument): boolean {
+    return document.languageId === 'yaml' && isWorkflowFile(document.uri);
+}
 
-    // Define required fields for each node type
-    const requiredFieldsByType: { [key: string]: string[] } = {
-        'agent': ['type', 'name', "inputs", "outputs"],
-        'ifelse': ['type', 'name', "conditions"],
-        'aggregator': ['type', 'name', 'outputs'],
-        'iterator': ['type', 'name', 'inputs'],
-        'while': ['type', 'name', 'inputs'],
-    };
-
-    const requiredFields = requiredFieldsByType[nodeType.toString().toLowerCase()];
-
-    // If node type is not recognized, only check for basic fields
-    if (!requiredFields) {
-        errors.push(createLintError(
-            line, 0,
-            `Node "${nodeName}" has unknown type: ${nodeType}`,
-            vscode.DiagnosticSeverity.Warning
-        ));
-        return errors;
-    }
+function clearLint(uri: vscode.Uri) {
+    const key = uri.toString();
+    scheduler.cancel(key);
+    lintFixes.delete(key);
+    collection.delete(uri);
+}
 
-    // Check each required field for this node type
-    requiredFields.forEach(field => {
-        const value = hasGetMethod ? node.get(field) : node[field];
-
-        // Check if the field exists and has a non-empty value
-        if (value === undefined || value === null ||
-            (typeof value === 'string' && value.trim() === '') ||
-            (value && typeof value === 'object' && value.toString && value.toString().trim() === '')) {
-            errors.push(createLintError(
-                line, 0,
-                `Node "${nodeName}" of type "${nodeType}" is missing required field: ${field}`,
-                vscode.DiagnosticSeverity.Error
-            ));
-        }
-    });
+/**
+ * Lint every workflow file in the workspace so broken files show up in the
+ * Problems panel before anyone opens them.
+ */
+async function lintAllWorkflows(): Promise<void> {
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Linting GenOr workflows...',
+        cancellable: true
+    }, async (progress, token) => {
+        const yamlFiles = await findWorkflowFiles();
+
+        // Calculate total files for progress reporting
+        const totalFiles = yamlFiles.length;
+        let filesProcessed = 0;
+
+        for (const fileUri of yamlFiles) {
+            if (token.isCancellationRequested) {
+                break;
+            }
 
-    // Additional validation for agent types
-    const nodeTypeStr = nodeType.toString().toLowerCase();
-    if (nodeTypeStr === 'agent') {
-        const inputs = hasGetMethod ? node.get('inputs') : node['inputs'];
-        if (inputs) {
-            const inputsHasGet = inputs && typeof inputs === 'object' && 'get' in inputs && typeof inputs.get === 'function';
-
-            // Get agent_path to determine if init_kwargs should be checked
-            const agentPath = inputsHasGet ? inputs.get('agent_path') : inputs['agent_path'];
-            const agentPathStr = agentPath ? agentPath.toString() : '';
-
-            // Agents that don't require init_kwargs
-            const agentsWithoutInitKwargs = [
-                'genor_agents.custom_smart_judge_agents.identity_agent.IdentityAgent',
-                'genor_agents.information_extraction.ocrs.pdf_ocr_agent.PDFOCRAgent'
-            ];
-
-            const skipInitKwargs = agentsWithoutInitKwargs.includes(agentPathStr);
-
-            // Check required agent input fields
-            const requiredAgentFields = skipInitKwargs ? ['agent_path'] : ['agent_path', 'init_kwargs'];
-            requiredAgentFields.forEach(field => {
-                const value = inputsHasGet ? inputs.get(field) : inputs[field];
-
-                // For agent_path, check if it's empty string as well
-                const isEmpty = field === 'agent_path'
-                    ? (!value || (typeof value === 'string' && value.trim() === ''))
-                    : !value;
-
-                if (isEmpty) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}" of type "${nodeType}" is missing required field: inputs.${field}`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                }
+            // Update progress bar with percentage
+            filesProcessed++;
+            const progressPercentage = (filesProcessed / totalFiles) * 100;
+            progress.report({
+                increment: 100 / totalFiles,
+                message: `${Math.round(progressPercentage)}% complete`
             });
 
-            // Check for either call_kwargs or call_args (they are equivalent)
-            const callKwargs = inputsHasGet ? inputs.get('call_kwargs') : inputs['call_kwargs'];
-            const callArgs = inputsHasGet ? inputs.get('call_args') : inputs['call_args'];
-
-            if (!callKwargs && !callArgs) {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}" of type "${nodeType}" is missing required field: inputs.call_kwargs`,
-                    vscode.DiagnosticSeverity.Error
-                ));
+            try {
+                const document = await vscode.workspace.openTextDocument(fileUri);
+                workspaceLintedFiles.add(fileUri.toString());
+                lintYaml(document);
+            } catch (err) {
+                console.error(`Error linting file ${fileUri.toString()}: ${err}`);
             }
         }
-    }
-
-    // Additional validation for iterator and while types
-    if (nodeTypeStr === 'iterator' || nodeTypeStr === 'while') {
-        const inputs = hasGetMethod ? node.get('inputs') : node['inputs'];
-        if (inputs) {
-            const inputsHasGet = inputs && typeof inputs === 'object' && 'get' in inputs && typeof inputs.get === 'function';
-
-            // Check for iterable field in iterators
-            if (nodeTypeStr === 'iterator') {
-                const iterable = inputsHasGet ? inputs.get('iterable') : inputs['iterable'];
-                if (!iterable || (typeof iterable === 'string' && iterable.trim() === '')) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}" of type "${nodeType}" is missing required field: inputs.iterable`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                }
-            }
+    });
+}
 
-            const subgraph = inputsHasGet ? inputs.get('subgraph') : inputs['subgraph'];
-            if (!subgraph) {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}" of type "${nodeType}" is missing required field: inputs.subgraph`,
-                    vscode.DiagnosticSeverity.Error
-                ));
-            } else {
-                const subgraphHasGet = subgraph && typeof subgraph === 'object' && 'get' in subgraph && typeof subgraph.get === 'function';
-                const nestedNodes = subgraphHasGet ? subgraph.get('nodes') : subgraph['nodes'];
-                if (!nestedNodes) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}" of type "${nodeType}" is missing required field: inputs.subgraph.nodes`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                }
-            }
+/**
+ * Reads a definitions file from each workspace folder. An invalid file is
+ * reported and skipped, leaving the other definitions in use.
+ */
+async function readWorkspaceDefinitions<T>(file: string, parse: (text: string, fileUri: vscode.Uri) => T): Promise<T[]> {
+    const layers: T[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const fileUri = vscode.Uri.joinPath(folder.uri, file);
+
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+        } catch {
+            // No such file in this folder
+            continue;
         }
-    }
 
-    // Additional validation for ifelse types
-    if (nodeTypeStr === 'ifelse') {
-        const conditions = hasGetMethod ? node.get('conditions') : node['conditions'];
-        if (conditions) {
-            // Check if conditions is an array/sequence
-            const isArray = Array.isArray(conditions) ||
-                (conditions && typeof conditions === 'object' && 'items' in conditions);
-
-            if (isArray) {
-                let hasIfCondition = false;
-
-                // Handle YAML sequence (YAMLSeq) or regular array
-                const conditionsArray = Array.isArray(conditions) ? conditions :
-                    (conditions.items ? conditions.items : []);
-
-                for (const condition of conditionsArray) {
-                    const conditionHasGet = condition && typeof condition === 'object' && 'get' in condition && typeof condition.get === 'function';
-                    const ifField = conditionHasGet ? condition.get('if') : condition['if'];
-
-                    if (ifField) {
-                        hasIfCondition = true;
-                        break;
-                    }
-                }
-
-                if (!hasIfCondition) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}" of type "${nodeType}" is missing required field: conditions.if`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                }
-            } else {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}" of type "${nodeType}" has invalid conditions structure - should be an array`,
-                    vscode.DiagnosticSeverity.Error
-                ));
-            }
+        try {
+            layers.push(parse(text, fileUri));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Invalid ${vscode.workspace.asRelativePath(fileUri)}: ${e.message}`);
         }
     }
 
-    return errors;
+    return layers;
 }
 
-function checkDataTypes(node: any, nodeName: string, line: number): LintError[] {
-    const errors: LintError[] = [];
-
-    // Get outputs field
-    const outputs = node.get ? node.get('outputs') : node.outputs;
-
-    // Check if outputs exists and is valid
-    if (outputs !== undefined) {
-        // Check if outputs is null (happens when YAML has "outputs:" with no value)
-        if (outputs === null) {
-            errors.push(createLintError(
-                line, 0,
-                `Node "${nodeName}": 'outputs' field is empty`,
-                vscode.DiagnosticSeverity.Error
-            ));
-        } else {
-            // Check if it's a YAMLSeq (YAML's array representation)
-            const isYAMLArray = outputs && typeof outputs === 'object' && outputs.items !== undefined;
-            // Check if it's a regular array
-            const isRegularArray = Array.isArray(outputs);
-
-            if (!isYAMLArray && !isRegularArray && typeof outputs !== 'object') {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}": 'outputs' must be an array or object`,
-                    vscode.DiagnosticSeverity.Error
-                ));
-            } else {
-                // Check if outputs is empty or contains only empty items
-                let isEmpty = false;
-                let hasEmptyItems = false;
-
-                if (isRegularArray) {
-                    isEmpty = outputs.length === 0;
-                    hasEmptyItems = outputs.some(item =>
-                        item === null || item === undefined ||
-                        (typeof item === 'string' && item.trim() === '') ||
-                        item === '-'
-                    );
-                } else if (isYAMLArray) {
-                    isEmpty = !outputs.items || outputs.items.length === 0;
-                    hasEmptyItems = outputs.items && outputs.items.some((item: any) => {
-                        // Handle different YAML node types
-                        let value: unknown;
-
-                        if (item && typeof item === 'object') {
-                            // Check if it's a YAML scalar node
-                            if ('value' in item) {
-                                value = item.value;
-                            } else if ('toString' in item && typeof item.toString === 'function') {
-                                const stringValue = item.toString();
-                                value = stringValue;
-                            } else {
-                                value = item;
-                            }
-                        } else {
-                            value = item;
-                        }
-
-                        return value === null || value === undefined ||
-                            (typeof value === 'string' && (value.trim() === '' || value === '-')) ||
-                            value === '';
-                    });
-                }
-
-                if (isEmpty) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}": 'outputs' field is empty`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                } else if (hasEmptyItems) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}": 'outputs' field contains empty items`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                }
-            }
-        }
-    }
-
-    // Get next field
-    const next = node.get ? node.get('next') : node.next;
-
-    // Check if next exists and is valid
-    if (next !== undefined) {
-        // Check if next is null (happens when YAML has "next:" with no value)
-        if (next === null) {
-            errors.push(createLintError(
-                line, 0,
-                `Node "${nodeName}": 'next' field is empty`,
-                vscode.DiagnosticSeverity.Error
-            ));
-            // Continue processing instead of returning early
-        } else {
-            // Check if it's a YAMLSeq (YAML's array representation)
-            const isYAMLArray = next && typeof next === 'object' && next.items !== undefined;
-            // Check if it's a regular array
-            const isRegularArray = Array.isArray(next);
-            // Check if it's a string
-            const isString = typeof next === 'string';
-
-            if (!isYAMLArray && !isRegularArray && !isString) {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}": 'next' must be an array or string`,
-                    vscode.DiagnosticSeverity.Error
-                ));
-            } else {
-                // Check if next is empty or contains empty items
-                let isEmpty = false;
-                let hasEmptyItems = false;
-
-                if (isString) {
-                    isEmpty = next.trim() === '' || next === '-';
-                } else if (isRegularArray) {
-                    isEmpty = next.length === 0;
-                    hasEmptyItems = next.some(item =>
-                        item === null || item === undefined ||
-                        (typeof item === 'string' && (item.trim() === '' || item === '-'))
-                    );
-                } else if (isYAMLArray) {
-                    isEmpty = !next.items || next.items.length === 0;
-                    hasEmptyItems = next.items && next.items.some((item: any) => {
-                        // Handle different YAML node types
-                        let value: unknown;
-
-                        if (item && typeof item === 'object') {
-                            // Check if it's a YAML scalar node
-                            if ('value' in item) {
-                                value = item.value;
-                            } else if ('toString' in item && typeof item.toString === 'function') {
-                                const stringValue = item.toString();
-                                value = stringValue;
-                            } else {
-                                value = item;
-                            }
-                        } else {
-                            value = item;
-                        }
-
-                        return value === null || value === undefined ||
-                            (typeof value === 'string' && (value.trim() === '' || value === '-')) ||
-                            value === '';
-                    });
-                }
-
-                if (isEmpty) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}": 'next' field is empty`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                } else if (hasEmptyItems) {
-                    errors.push(createLintError(
-                        line, 0,
-                        `Node "${nodeName}": 'next' field contains empty items`,
-                        vscode.DiagnosticSeverity.Error
-                    ));
-                }
-            }
-        }
-    }
-
-    return errors;
+// Reloads the node types, agent catalog, model providers and variables from the workspace
+async function loadWorkspaceDefinitions(): Promise<void> {
+    const [nodeTypeLayers, agentLayers, providerLayers, variableLayers] = await Promise.all([
+        readWorkspaceDefinitions(NODE_TYPE_SCHEMA_FILE, parseNodeTypeSchemas),
+        readWorkspaceDefinitions(AGENT_CATALOG_FILE, parseAgentCatalog),
+        readWorkspaceDefinitions(LLM_PROVIDERS_FILE, parseLlmProviders),
+        readWorkspaceDefinitions(VARIABLES_FILE, (text, uri) => ({ uri, variables: parseVariables(text) }))
+    ]);
+
+    nodeTypeSchemas = mergeNodeTypeSchemas(BUILTIN_NODE_TYPES, ...nodeTypeLayers);
+    agentCatalog = mergeAgentCatalogs(BUILTIN_AGENTS, ...agentLayers);
+    llmProviders = mergeLlmProviders(BUILTIN_LLM_PROVIDERS, ...providerLayers);
+    variableFiles = variableLayers;
 }
 
-function checkEmptyValues(node: any, nodeName: string, line: number): LintError[] {
-    const errors: LintError[] = [];
-
-    // For YAML nodes, we need to iterate differently
-    if (node.items) {
-        // It's a YAMLMap
-        for (const pair of node.items) {
-            const key = pair.key;
-            const value = pair.value;
-
-            if (value === null || value === undefined || value === '') {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}": '${key}' has empty value`,
-                    vscode.DiagnosticSeverity.Warning
-                ));
+// Lints open documents again, plus files from the last workspace lint
+async function relintWorkflows(): Promise<void> {
+    const openDocuments = vscode.workspace.textDocuments.filter(isLiveLinted);
+    openDocuments.forEach(document => lintYaml(document));
+
+    const openUris = new Set(openDocuments.map(document => document.uri.toString()));
+    for (const uri of workspaceLintedFiles) {
+        if (!openUris.has(uri)) {
+            try {
+                lintYaml(await vscode.workspace.openTextDocument(vscode.Uri.parse(uri)));
+            } catch (err) {
+                console.error(`Error linting file ${uri}: ${err}`);
             }
         }
-    } else {
-        // Regular object
-        Object.entries(node).forEach(([key, value]) => {
-            if (value === null || value === undefined || value === '') {
-                errors.push(createLintError(
-                    line, 0,
-                    `Node "${nodeName}": '${key}' has empty value`,
-                    vscode.DiagnosticSeverity.Warning
-                ));
-            }
-        });
-    }
-
-    return errors;
-}
-
-function checkIndentation(document: vscode.TextDocument, line: number): LintError | null {
-    if (line < 0 || line >= document.lineCount) {
-        return null;
-    }
-
-    const lineText = document.lineAt(line).text;
-    const indentMatch = lineText.match(/^(\s+)/);
-    if (indentMatch && (indentMatch[1].includes('\t') && indentMatch[1].includes(' '))) {
-        return createLintError(
-            line, 0,
-            "Mixed tab and space indentation",
-            vscode.DiagnosticSeverity.Warning
-        );
     }
-
-    return null;
-}
-
-function createLintError(
-    line: number,
-    character: number,
-    message: string,
-    severity: vscode.DiagnosticSeverity
-): LintError {
-    return {
-        message,
-        severity,
-        range: new vscode.Range(
-            line,
-            character,
-            line,
-            character + 1
-        )
-    };
 }
 
-function convertLintErrorToDiagnostic(lintError: LintError): vscode.Diagnostic {
-    return new vscode.Diagnostic(
-        lintError.range,
-        lintError.message,
-        lintError.severity
-    );
-}
-
-function findNodeLine(document: vscode.TextDocument, nodeName: string): number {
-    const text = document.getText();
-    const lines = text.split('\n');
+export function activateLinter(): vscode.Disposable[] {
+    const lintCommand = vscode.commands.registerCommand('genor-yaml-toolkit.lintYaml', () => {
+        const editor = vscode.window.activeTextEditor;
+        if (editor && editor.document.languageId === 'yaml') {
+            lintYaml(editor.document);
+        }
+    });
 
-    // Look for the node definition pattern
-    const nodePattern = new RegExp(`^\\s*${escapeRegExp(nodeName)}\\s*:`, 'm');
+    const lintAllCommand = vscode.commands.registerCommand('genor-yaml-toolkit.lintAllWorkflows', lintAllWorkflows);
 
-    // First look in the nodes section
-    let inNodesSection = false;
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
+    // Lint documents that were already open before activation, once the definitions are loaded
+    loadWorkspaceDefinitions().then(relintWorkflows);
 
-        // Check if we're entering the nodes section
-        if (/^\s*nodes\s*:/.test(line)) {
-            inNodesSection = true;
-            continue;
+    const openSubscription = vscode.workspace.onDidOpenTextDocument(document => {
+        if (isLiveLinted(document)) {
+            lintYaml(document);
         }
+    });
 
-        // If we're in the nodes section and find a match, return the line number
-        if (inNodesSection && nodePattern.test(line)) {
-            return i;
+    const changeSubscription = vscode.workspace.onDidChangeTextDocument(event => {
+        if (isLiveLinted(event.document) && event.contentChanges.length > 0) {
+            scheduler.schedule(event.document.uri.toString(), () => lintYaml(event.document));
         }
+    });
 
-        // If we encounter a new top-level section, we're no longer in the nodes section
-        if (inNodesSection && /^\w+\s*:/.test(line)) {
-            inNodesSection = false;
+    // Add automatic linting on save
+    const saveSubscription = vscode.workspace.onDidSaveTextDocument(document => {
+        if (isLiveLinted(document)) {
+            lintYaml(document);
         }
-    }
+    });
 
-    // If not found in nodes section, search the entire document
-    for (let i = 0; i < lines.length; i++) {
-        if (nodePattern.test(lines[i])) {
-            return i;
+    const closeSubscription = vscode.workspace.onDidCloseTextDocument(document => {
+        if (!workspaceLintedFiles.has(document.uri.toString())) {
+            clearLint(document.uri);
         }
-    }
+    });
 
-    return -1;
-}
+    // Catch deletions made outside the editor as well
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.{yml,yaml}');
+    watcher.onDidDelete(uri => {
+        workspaceLintedFiles.delete(uri.toString());
+        clearLint(uri);
+    });
+
+    // Pick up node type, agent, provider and variable definitions as they are edited
+    const definitionsWatcher = vscode.workspace.createFileSystemWatcher('**/.genor/{node-types,agents,llm-providers,variables}.yaml');
+    const reloadDefinitions = () => loadWorkspaceDefinitions().then(relintWorkflows);
+    definitionsWatcher.onDidCreate(reloadDefinitions);
+    definitionsWatcher.onDidChange(reloadDefinitions);
+    definitionsWatcher.onDidDelete(reloadDefinitions);
+
+    // Severity overrides apply as soon as the setting changes
+    const configurationSubscription = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('genorYamlToolkit.lintRules')) {
+            relintWorkflows();
+        }
+    });
 
-function escapeRegExp(string: string): string {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return [
+        lintCommand,
+        lintAllCommand,
+        openSubscription,
+        changeSubscription,
+        saveSubscription,
+        closeSubscription,
+        watcher,
+        definitionsWatcher,
+        configurationSubscription,
+        collection
+    ];
 }
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { isValidNodeName, planNodeRename, RenameSpan } from './nodeRename';
+import { documentSymbols, findNodeSymbols, nodeSymbolAt, symbolRange } from './yamlWorkflowIndex';
+
+// Adds the replacements for one file, naming the file in any error
+async function renameInFile(
+    edit: vscode.WorkspaceEdit,
+    uri: vscode.Uri,
+    name: string,
+    newName: string,
+    definition: vscode.Position | undefined,
+    needsConfirmation: boolean
+): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+
+    let spans: RenameSpan[];
+    try {
+        spans = planNodeRename(document.getText(), name, newName, definition && document.offsetAt(definition));
+    } catch (e: any) {
+        throw new Error(`${vscode.workspace.asRelativePath(uri)}: ${e.message}`);
+    }
+
+    spans.forEach(span => edit.replace(
+        uri,
+        new vscode.Range(document.positionAt(span.start), document.positionAt(span.end)),
+        newName,
+        { label: `Rename node "${name}" to "${newName}"`, needsConfirmation }
+    ));
+}
+
+/**
+ * Renames a node together with its `next` entries, `ifelse` targets,
+ * aggregator sources and `{{ node.outputs }}` references. References in other
+ * workflow files are renamed too when the node is the only one of its name in
+ * the workspace; those edits are shown in the refactor preview first.
+ */
+export function activateRename(): vscode.Disposable[] {
+    const renameProvider = vscode.languages.registerRenameProvider('yaml', {
+        prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+            const symbol = nodeSymbolAt(document, position);
+            if (!symbol) {
+                throw new Error('Only node names can be renamed');
+            }
+            return { range: symbolRange(documentSymbols(document), symbol), placeholder: symbol.name };
+        },
+
+        async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit> {
+            const symbol = nodeSymbolAt(document, position);
+            if (!symbol) {
+                throw new Error('Only node names can be renamed');
+            }
+
+            const name = symbol.name;
+            newName = newName.trim();
+            if (!isValidNodeName(newName)) {
+                throw new Error(`"${newName}" is not a valid node name: use letters, digits, "_" and "-", starting with a letter or "_"`);
+            }
+
+            const edit = new vscode.WorkspaceEdit();
+            if (newName === name) {
+                return edit;
+            }
+
+            const definitions = await findNodeSymbols(name, ['definition']);
+            const localDefinition = symbol.kind === 'definition' ? symbol : symbol.definition;
+
+            let definitionUri: vscode.Uri;
+            let definitionPosition: vscode.Position;
+            if (localDefinition) {
+                definitionUri = document.uri;
+                definitionPosition = document.positionAt(localDefinition.start);
+            } else if (definitions.length === 1) {
+                definitionUri = definitions[0].uri;
+                definitionPosition = definitions[0].range.start;
+            } else if (definitions.length === 0) {
+                throw new Error(`Node "${name}" is not defined in any workflow file`);
+            } else {
+                throw new Error(`Node "${name}" is defined in ${definitions.length} places; rename it from its definition`);
+            }
+
+            await renameInFile(edit, definitionUri, name, newName, definitionPosition, definitionUri.toString() !== document.uri.toString());
+
+            // Other files can only refer to the node by name when no other node has it
+            if (definitions.length === 1) {
+                const otherFiles = new Map<string, vscode.Uri>();
+                (await findNodeSymbols(name)).forEach(location => {
+                    if (location.uri.toString() !== definitionUri.toString()) {
+                        otherFiles.set(location.uri.toString(), location.uri);
+                    }
+                });
+                for (const uri of otherFiles.values()) {
+                    await renameInFile(edit, uri, name, newName, undefined, uri.toString() !== document.uri.toString());
+                }
+            }
+
+            return edit;
+        }
+    });
+
+    return [renameProvider];
+}
@@ -0,0 +1,132 @@
+import { parseAllDocuments } from 'yaml';
+
+/**
+ * A single place where two YAML texts disagree on their data model.
+ * Paths use `$` for the root, e.g. `$.nodes.my_agent.next[0]`; files with several
+ * documents are prefixed with the document index, e.g. `$[1].nodes`.
+ */
+export interface SemanticDifference {
+    path: string;
+    kind: 'added' | 'removed' | 'changed';
+    before?: unknown;
+    after?: unknown;
+}
+
+/**
+ * Thrown when a transformation (such as formatting) would change what a
+ * YAML document means rather than just how it looks.
+ */
+export class RoundTripError extends Error {
+    readonly differences: SemanticDifference[];
+
+    constructor(differences: SemanticDifference[]) {
+        super(`Output differs from the original document at ${differences.length} path(s)`);
+        this.name = 'RoundTripError';
+        this.differences = differences;
+    }
+}
+
+function loadDocuments(text: string): unknown[] {
+    return parseAllDocuments(text).map(doc => {
+        if (doc.errors.length > 0) {
+            throw doc.errors[0];
+        }
+        return doc.toJS();
+    });
+}
+
+function formatKey(path: string, key: string): string {
+    return /^[A-Za-z_][\w-]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectDifferences(before: unknown, after: unknown, path: string, differences: SemanticDifference[]) {
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const length = Math.max(before.length, after.length);
+        for (let i = 0; i < length; i++) {
+            const itemPath = `${path}[${i}]`;
+            if (i >= after.length) {
+                differences.push({ path: itemPath, kind: 'removed', before: before[i] });
+            } else if (i >= before.length) {
+                differences.push({ path: itemPath, kind: 'added', after: after[i] });
+            } else {
+                collectDifferences(before[i], after[i], itemPath, differences);
+            }
+        }
+        return;
+    }
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        for (const key of Object.keys(before)) {
+            const keyPath = formatKey(path, key);
+            if (!(key in after)) {
+                differences.push({ path: keyPath, kind: 'removed', before: before[key] });
+            } else {
+                collectDifferences(before[key], after[key], keyPath, differences);
+            }
+        }
+        for (const key of Object.keys(after)) {
+            if (!(key in before)) {
+                differences.push({ path: formatKey(path, key), kind: 'added', after: after[key] });
+            }
+        }
+        return;
+    }
+
+    if (!Object.is(before, after)) {
+        differences.push({ path, kind: 'changed', before, after });
+    }
+}
+
+/**
+ * Parses both texts and lists every path whose value differs.
+ * Throws if the original text is not valid YAML; an invalid modified text is
+ * reported as a change of the root.
+ */
+export function compareYamlSemantics(originalText: string, modifiedText: string): SemanticDifference[] {
+    const before = loadDocuments(originalText);
+
+    let after: unknown[];
+    try {
+        after = loadDocuments(modifiedText);
+    } catch (error: any) {
+        return [{ path: '$', kind: 'changed', after: `YAML Syntax Error: ${error.message}` }];
+    }
+
+    const differences: SemanticDifference[] = [];
+    if (before.length <= 1 && after.length <= 1) {
+        collectDifferences(before[0], after[0], '$', differences);
+    } else {
+        collectDifferences(before, after, '$', differences);
+    }
+    return differences;
+}
+
+/**
+ * Throws a RoundTripError if the modified text does not describe the same data as the original.
+ */
+export function assertSemanticallyEqual(originalText: string, modifiedText: string): void {
+    const differences = compareYamlSemantics(originalText, modifiedText);
+    if (differences.length > 0) {
+        throw new RoundTripError(differences);
+    }
+}
+
+/**
+ * Renders differences as one line per path, suitable for an output channel or console.
+ */
+export function describeDifferences(differences: SemanticDifference[]): string {
+    return differences.map(difference => {
+        switch (difference.kind) {
+            case 'added':
+                return `+ ${difference.path}: ${JSON.stringify(difference.after)}`;
+            case 'removed':
+                return `- ${difference.path}: ${JSON.stringify(difference.before)}`;
+            default:
+                return `~ ${difference.path}: ${JSON.stringify(difference.before)} -> ${JSON.stringify(difference.after)}`;
+        }
+    }).join('\n');
+}
@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { stringify } from 'yaml';
+import { findSubstitutions, isEmptySubstitution, isFileReference, Substitution, VARIABLES_FILE } from './substitutions';
+import { findVariable, resolveSubstitutionFile } from './yamlLinter';
+
+// Lines of a prompt or schema file shown on hover
+const PREVIEW_LINES = 20;
+
+// Code block languages for common prompt and schema files
+const PREVIEW_LANGUAGES: { [extension: string]: string } = {
+    '.json': 'json',
+    '.yaml': 'yaml',
+    '.yml': 'yaml',
+    '.md': 'markdown',
+    '.j2': 'jinja',
+    '.jinja': 'jinja'
+};
+
+// The substitution under the cursor, with its range on the line
+function substitutionAt(document: vscode.TextDocument, position: vscode.Position): { substitution: Substitution; range: vscode.Range } | undefined {
+    const line = document.lineAt(position.line);
+    const substitution = findSubstitutions(line.text).find(candidate =>
+        position.character >= candidate.start && position.character <= candidate.end);
+    if (!substitution || isEmptySubstitution(substitution)) {
+        return undefined;
+    }
+
+    return {
+        substitution,
+        range: new vscode.Range(position.line, substitution.start, position.line, substitution.end)
+    };
+}
+
+function filePreview(file: vscode.Uri): vscode.MarkdownString | undefined {
+    let text: string;
+    try {
+        text = fs.readFileSync(file.fsPath, 'utf8');
+    } catch {
+        return undefined;
+    }
+
+    const lines = text.split(/\r?\n/);
+    const preview = lines.slice(0, PREVIEW_LINES).join('\n');
+    const language = PREVIEW_LANGUAGES[path.extname(file.fsPath).toLowerCase()] ?? '';
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${vscode.workspace.asRelativePath(file)}**\n\n`);
+    markdown.appendCodeblock(preview, language);
+    if (lines.length > PREVIEW_LINES) {
+        markdown.appendMarkdown(`\n\n_${lines.length - PREVIEW_LINES} more lines_`);
+    }
+    return markdown;
+}
+
+function variablePreview(name: string): vscode.MarkdownString | undefined {
+    const variable = findVariable(name);
+    if (!variable) {
+        return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${name}** from \`${vscode.workspace.asRelativePath(variable.uri)}\`\n\n`);
+    markdown.appendCodeblock(stringify(variable.definition.value).trimEnd(), 'yaml');
+    return markdown;
+}
+
+/**
+ * Go to definition and hover previews for `${...}` substitutions: a path
+ * opens the prompt or schema file, a name the variable in `.genor/variables.yaml`.
+ */
+export function activateSubstitutions(): vscode.Disposable[] {
+    const definitionProvider = vscode.languages.registerDefinitionProvider('yaml', {
+        async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+            const found = substitutionAt(document, position);
+            if (!found) {
+                return undefined;
+            }
+
+            const reference = found.substitution.body.trim();
+            if (isFileReference(reference)) {
+                const file = resolveSubstitutionFile(document, reference);
+                return file ? new vscode.Location(file, new vscode.Position(0, 0)) : undefined;
+            }
+
+            const variable = findVariable(reference);
+            if (!variable) {
+                return undefined;
+            }
+            const variablesDocument = await vscode.workspace.openTextDocument(variable.uri);
+            return new vscode.Location(variable.uri, new vscode.Range(
+                variablesDocument.positionAt(variable.definition.start),
+                variablesDocument.positionAt(variable.definition.end)
+            ));
+        }
+    });
+
+    const hoverProvider = vscode.languages.registerHoverProvider('yaml', {
+        provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+            const found = substitutionAt(document, position);
+            if (!found) {
+                return undefined;
+            }
+
+            const reference = found.substitution.body.trim();
+            let contents: vscode.MarkdownString | undefined;
+            if (isFileReference(reference)) {
+                const file = resolveSubstitutionFile(document, reference);
+                contents = file ? filePreview(file) : undefined;
+            } else {
+                contents = variablePreview(reference)
+                    ?? new vscode.MarkdownString(`\`${reference}\` is not defined in \`${VARIABLES_FILE}\``);
+            }
+            return contents ? new vscode.Hover(contents, found.range) : undefined;
+        }
+    });
+
+    return [definitionProvider, hoverProvider];
+}
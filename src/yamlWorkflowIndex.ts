@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { findWorkflowFiles, isWorkflowFile } from './workflowFiles';
+import { indexWorkflow, NodeSymbol, NodeSymbolKind, positionAt, symbolAt, WorkflowSymbols } from './workflowIndex';
+
+interface IndexEntry {
+    uri: vscode.Uri;
+    /** Version of the open document the symbols were read from; undefined when read from disk */
+    version?: number;
+    symbols: WorkflowSymbols;
+}
+
+// Symbols of every workflow file, keyed by URI
+const entries = new Map<string, IndexEntry>();
+
+// The first pass over the workspace, started on activation
+let workspaceIndexed: Promise<void> | undefined;
+
+function openDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    const key = uri.toString();
+    return vscode.workspace.textDocuments.find(document => document.uri.toString() === key);
+}
+
+async function indexSavedFile(uri: vscode.Uri): Promise<void> {
+    try {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        entries.set(uri.toString(), { uri, symbols: indexWorkflow(text) });
+    } catch {
+        entries.delete(uri.toString());
+    }
+}
+
+// Open documents are indexed from the editor, whose text may not be saved yet
+async function indexFile(uri: vscode.Uri): Promise<void> {
+    const document = openDocument(uri);
+    if (document) {
+        documentSymbols(document);
+    } else {
+        await indexSavedFile(uri);
+    }
+}
+
+function indexWorkspace(): Promise<void> {
+    if (!workspaceIndexed) {
+        workspaceIndexed = findWorkflowFiles()
+            .then(files => Promise.all(files.map(indexFile)))
+            .then(() => undefined, err => console.error(`Error indexing workflows: ${err}`));
+    }
+    return workspaceIndexed;
+}
+
+/**
+ * The node symbols of a document, parsed again only when it has changed
+ * since it was last indexed.
+ */
+export function documentSymbols(document: vscode.TextDocument): WorkflowSymbols {
+    const key = document.uri.toString();
+    const entry = entries.get(key);
+    if (entry && entry.version === document.version) {
+        return entry.symbols;
+    }
+
+    const symbols = indexWorkflow(document.getText());
+    entries.set(key, { uri: document.uri, version: document.version, symbols });
+    return symbols;
+}
+
+/**
+ * The node name under the cursor, if there is one.
+ */
+export function nodeSymbolAt(document: vscode.TextDocument, position: vscode.Position): NodeSymbol | undefined {
+    return symbolAt(documentSymbols(document), document.offsetAt(position));
+}
+
+/**
+ * The range of a symbol in the file it was indexed from.
+ */
+export function symbolRange(symbols: WorkflowSymbols, symbol: NodeSymbol): vscode.Range {
+    const start = positionAt(symbols, symbol.start);
+    const end = positionAt(symbols, symbol.end);
+    return new vscode.Range(start.line, start.character, end.line, end.character);
+}
+
+/**
+ * Every place in the workspace where a node name appears, optionally only
+ * of the given kinds. Waits for the workspace to be indexed.
+ */
+export async function findNodeSymbols(name: string, kinds?: NodeSymbolKind[]): Promise<vscode.Location[]> {
+    await indexWorkspace();
+
+    const locations: vscode.Location[] = [];
+    entries.forEach(entry => {
+        // Untitled documents and files that are not workflows are only indexed while open
+        if (entry.uri.scheme !== 'file' || !isWorkflowFile(entry.uri)) {
+            return;
+        }
+
+        // Pick up edits made since the document was last indexed
+        const document = entry.version !== undefined ? openDocument(entry.uri) : undefined;
+        const symbols = document ? documentSymbols(document) : entry.symbols;
+
+        symbols.symbols
+            .filter(symbol => symbol.name === name && (!kinds || kinds.includes(symbol.kind)))
+            .forEach(symbol => locations.push(new vscode.Location(entry.uri, symbolRange(symbols, symbol))));
+    });
+    return locations;
+}
+
+/**
+ * Keeps the workflow index in step with the workspace: files are indexed once
+ * on activation, then again only when they are created, changed or closed.
+ */
+export function activateWorkflowIndex(): vscode.Disposable[] {
+    indexWorkspace();
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.{yml,yaml}');
+    const update = (uri: vscode.Uri) => {
+        if (isWorkflowFile(uri) && !uri.fsPath.includes('node_modules')) {
+            indexFile(uri);
+        }
+    };
+    watcher.onDidCreate(update);
+    // Saving an open document is already covered by its version
+    watcher.onDidChange(uri => {
+        if (!openDocument(uri)) {
+            update(uri);
+        }
+    });
+    watcher.onDidDelete(uri => entries.delete(uri.toString()));
+
+    // Unsaved edits are dropped with the document, so read the file again
+    const closeSubscription = vscode.workspace.onDidCloseTextDocument(document => {
+        const key = document.uri.toString();
+        if (!entries.has(key)) {
+            return;
+        }
+        if (document.uri.scheme === 'file' && isWorkflowFile(document.uri)) {
+            indexSavedFile(document.uri);
+        } else {
+            entries.delete(key);
+        }
+    });
+
+    const foldersSubscription = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        entries.clear();
+        workspaceIndexed = undefined;
+        indexWorkspace();
+    });
+
+    return [watcher, closeSubscription, foldersSubscription];
+}